@@ -0,0 +1,203 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import { Server, type Socket } from "socket.io";
+
+// Development stand-in for the signaling server, mounted on the Vite dev server by
+// `npm run dev:sim`. It relays the same events as production between admin panels and
+// simulated dashcams (simulator.html), issues throwaway login tokens and serves a
+// /config.json that points the panel at itself. Nothing here is meant for production.
+
+interface DeviceEntry {
+  id: string;
+  name?: string;
+  vehicle?: string;
+  socketId: string | null;
+  status: "online" | "offline";
+  lastSeen?: number;
+}
+
+interface DashcamAuth {
+  role: "dashcam";
+  deviceId: string;
+  name?: string;
+  vehicle?: string;
+}
+
+interface Relayed {
+  to?: string;
+  deviceId?: string;
+  [key: string]: unknown;
+}
+
+const ADMINS = "admins";
+const TOKEN_PREFIX = "dev-token-";
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Addressed events, forwarded to `to` (or the named device) with the sender's socket id.
+const RELAYED_EVENTS = [
+  "webrtc-signal",
+  "webrtc-video-signal",
+  "end-call",
+  "end-video-call",
+  "call-ended",
+  "video-call-ended",
+  "accept-call",
+  "accept-video-call",
+  "decline-call",
+  "decline-video-call",
+];
+
+// Events a dashcam raises for every admin to see.
+const DASHCAM_BROADCASTS = ["incoming-call", "incoming-video-call", "telemetry", "dashcam-alert"];
+
+const readJson = (req: IncomingMessage) =>
+  new Promise<Record<string, unknown>>((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+const issueToken = (username: string) => {
+  const role = username === "admin" || username === "readonly" ? username : "operator";
+  return {
+    token: `${TOKEN_PREFIX}${randomUUID()}`,
+    expiresAt: Date.now() + TOKEN_TTL_MS,
+    operator: { id: username, name: username, role },
+  };
+};
+
+const isDashcam = (auth: unknown): auth is DashcamAuth =>
+  typeof auth === "object" && auth !== null && (auth as DashcamAuth).role === "dashcam" && !!(auth as DashcamAuth).deviceId;
+
+export const simulatedSignaling = (): Plugin => ({
+  name: "simulated-signaling",
+  apply: "serve",
+  configureServer(server) {
+    const devices = new Map<string, DeviceEntry>();
+
+    server.middlewares.use("/config.json", (req, res) => {
+      sendJson(res, 200, {
+        socketUrl: `http://${req.headers.host}`,
+        socketPath: "/socket.io",
+        socketHeaders: {},
+        // Host candidates are enough on one machine, and no STUN keeps it offline.
+        iceServers: [],
+        turnCredentialsUrl: null,
+        authUrl: null,
+        mapTileUrl: null,
+      });
+    });
+
+    server.middlewares.use("/auth/login", async (req, res) => {
+      const { username } = await readJson(req);
+      sendJson(res, 200, issueToken(typeof username === "string" && username ? username : "operator"));
+    });
+
+    server.middlewares.use("/auth/refresh", (req, res) => {
+      const token = req.headers.authorization?.replace(/^Bearer /, "") ?? "";
+      if (!token.startsWith(TOKEN_PREFIX)) {
+        sendJson(res, 401, { error: "Invalid token" });
+        return;
+      }
+      sendJson(res, 200, { token: `${TOKEN_PREFIX}${randomUUID()}`, expiresAt: Date.now() + TOKEN_TTL_MS });
+    });
+
+    if (!server.httpServer) return;
+    const io = new Server(server.httpServer, { path: "/socket.io", cors: { origin: true } });
+
+    const deviceList = () =>
+      [...devices.values()].map(({ id, name, vehicle, status, lastSeen }) => ({ id, name, vehicle, status, lastSeen }));
+
+    const publishStatus = (device: DeviceEntry) => {
+      io.to(ADMINS).emit("device-status", { deviceId: device.id, status: device.status, lastSeen: device.lastSeen });
+    };
+
+    io.use((socket, next) => {
+      const { auth } = socket.handshake;
+      if (isDashcam(auth) || (typeof auth.token === "string" && auth.token.startsWith(TOKEN_PREFIX))) {
+        next();
+        return;
+      }
+      const err = new Error("Unauthorized") as Error & { data?: unknown };
+      err.data = { status: 401, code: "AUTH_FAILED" };
+      next(err);
+    });
+
+    io.on("connection", (socket: Socket) => {
+      const { auth } = socket.handshake;
+      const dashcam = isDashcam(auth) ? auth : null;
+
+      if (dashcam) {
+        const device: DeviceEntry = {
+          ...devices.get(dashcam.deviceId),
+          id: dashcam.deviceId,
+          name: dashcam.name,
+          vehicle: dashcam.vehicle,
+          socketId: socket.id,
+          status: "online",
+          lastSeen: Date.now(),
+        };
+        devices.set(device.id, device);
+        publishStatus(device);
+        server.config.logger.info(`[signaling] dashcam ${device.id} connected`);
+
+        socket.on("disconnect", () => {
+          if (devices.get(device.id)?.socketId !== socket.id) return;
+          device.socketId = null;
+          device.status = "offline";
+          device.lastSeen = Date.now();
+          publishStatus(device);
+        });
+
+        DASHCAM_BROADCASTS.forEach((event) => {
+          socket.on(event, (payload: Record<string, unknown> = {}) => {
+            io.to(ADMINS).emit(event, { ...payload, from: socket.id, deviceId: device.id });
+          });
+        });
+      } else {
+        socket.join(ADMINS);
+        socket.on("get-devices", () => socket.emit("device-list", deviceList()));
+        socket.on("latency-ping", (ack?: () => void) => ack?.());
+
+        // Dialling: the dashcam answers with `ready` on the matching signal event.
+        ["start-call", "start-video-call"].forEach((event) => {
+          socket.on(event, ({ deviceId }: { deviceId?: string } = {}) => {
+            const device = deviceId ? devices.get(deviceId) : undefined;
+            if (!device?.socketId) {
+              socket.emit("error", `Device ${deviceId} is offline`);
+              return;
+            }
+            io.to(device.socketId).emit(event, { from: socket.id });
+          });
+        });
+      }
+
+      RELAYED_EVENTS.forEach((event) => {
+        socket.on(event, ({ to, ...payload }: Relayed = {}) => {
+          const deviceId = dashcam?.deviceId ?? payload.deviceId;
+          const target = to || (!dashcam && deviceId ? devices.get(deviceId)?.socketId : null);
+          const message = { ...payload, from: socket.id, deviceId };
+          if (target) {
+            io.to(target).emit(event, message);
+          } else if (dashcam) {
+            // e.g. a driver cancelling an SOS call nobody has answered yet.
+            io.to(ADMINS).emit(event, message);
+          }
+        });
+      });
+    });
+  },
+});
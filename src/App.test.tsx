@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DASHCAM_SOCKET, DEVICE_ID } from "./test/callHarness";
+import { FakeMediaStream } from "./test/fakePeerConnection";
+import { appSocket, renderApp, settle, trigger } from "./test/renderApp";
+import { getActiveCall } from "./webrtc/activeCall";
+import { SIGNALING_CHANNELS, type CallKind } from "./webrtc/signaling";
+
+vi.mock("./sockets", async () => ({ socket: new (await import("./test/fakeSocket")).FakeClientSocket() }));
+
+let app: Awaited<ReturnType<typeof renderApp>>;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  appSocket.emitted = [];
+  app = await renderApp();
+});
+
+afterEach(async () => {
+  await app.unmount();
+  vi.useRealTimers();
+});
+
+const startButton = (kind: CallKind) => (kind === "audio" ? "Start Audio Call" : "Start Video Call");
+
+describe.each<CallKind>(["audio", "video"])("App %s call", (kind) => {
+  const channel = SIGNALING_CHANNELS[kind];
+
+  it("dials, negotiates, exchanges candidates and hangs up from the UI", async () => {
+    await app.click(startButton(kind));
+    // The operator talks on audio calls; video calls are receive-only by default.
+    expect(app.getUserMedia).toHaveBeenCalledTimes(kind === "audio" ? 1 : 0);
+    expect(appSocket.emittedPayloads(channel.start)).toEqual([{ deviceId: DEVICE_ID }]);
+    expect(app.button("End Call").disabled).toBe(false);
+
+    const dashcam = await app.answer(kind);
+    const pc = app.pc();
+    expect(dashcam.sentSignals()[0]).toEqual({ to: DASHCAM_SOCKET, deviceId: DEVICE_ID, data: pc.localDescription });
+    expect(pc.localDescription?.type).toBe("offer");
+    expect(pc.remoteDescription).toEqual({ type: "answer", sdp: "v=0 answer" });
+
+    const remoteCandidate = "candidate:1 1 udp 2122260223 192.0.2.10 54400 typ host";
+    await trigger(() => dashcam.signal({ candidate: { candidate: remoteCandidate, sdpMid: "0", sdpMLineIndex: 0 } }));
+    expect(pc.addedCandidates).toEqual([expect.objectContaining({ candidate: remoteCandidate })]);
+
+    const localCandidate = { candidate: "candidate:2 1 udp 2122260223 192.0.2.20 50000 typ host", sdpMid: "0" };
+    pc.onicecandidate?.({ candidate: localCandidate });
+    expect(dashcam.sentSignals().map((signal) => signal.data)).toContainEqual(
+      expect.objectContaining({ candidate: expect.objectContaining(localCandidate) })
+    );
+
+    await trigger(() => {
+      pc.setIceConnectionState("connected");
+      pc.setConnectionState("connected");
+    });
+    expect(getActiveCall()).toMatchObject({ kind, state: "connected" });
+    expect(app.video() !== null).toBe(kind === "video");
+
+    await app.click("End Call");
+    expect(appSocket.emittedPayloads(channel.end)).toEqual([{ to: DASHCAM_SOCKET, deviceId: DEVICE_ID }]);
+    expect(pc.closed).toBe(true);
+    expect(getActiveCall().session).toBeNull();
+    expect(app.button(startButton(kind)).disabled).toBe(false);
+  });
+
+  it("resets the call UI when the dashcam hangs up", async () => {
+    await app.click(startButton(kind));
+    const dashcam = await app.answer(kind);
+    await trigger(() => app.pc().setConnectionState("connected"));
+
+    await trigger(() => dashcam.hangUp());
+
+    expect(getActiveCall().session).toBeNull();
+    expect(app.status()).toBe("Call ended");
+    expect(app.button("End Call").disabled).toBe(true);
+    expect(app.audio()).toBeNull();
+    expect(appSocket.emittedPayloads(channel.end)).toEqual([]);
+  });
+
+  it("fails the call once ICE restarts are used up", async () => {
+    await app.click(startButton(kind));
+    await app.answer(kind);
+    const pc = app.pc();
+    await trigger(() => {
+      pc.setIceConnectionState("connected");
+      pc.setConnectionState("connected");
+    });
+
+    await trigger(() => pc.setIceConnectionState("failed"));
+    expect(getActiveCall().state).toBe("reconnecting");
+    expect(app.status()).toMatch(/^Reconnecting \(attempt 1\//);
+    expect(pc.offers.at(-1)).toMatchObject({ iceRestart: true });
+
+    await settle(60_000);
+
+    expect(getActiveCall().session).toBeNull();
+    expect(app.status()).toBe("ICE connection failed");
+    expect(appSocket.emittedPayloads(channel.ended)).toEqual([{ to: DASHCAM_SOCKET, deviceId: DEVICE_ID }]);
+    expect(app.button(startButton(kind)).disabled).toBe(false);
+  });
+
+  it("fails the call on a socket error event", async () => {
+    await app.click(startButton(kind));
+    await app.answer(kind);
+    const pc = app.pc();
+
+    await trigger(() => appSocket.receive("error", "Device not reachable"));
+
+    expect(getActiveCall().session).toBeNull();
+    expect(app.status()).toBe("Error: Device not reachable");
+    expect(pc.closed).toBe(true);
+    expect(app.button("End Call").disabled).toBe(true);
+  });
+});
+
+it("shows a socket error as the status when no call is running", async () => {
+  await trigger(() => appSocket.receive("error", "Server restarting"));
+
+  expect(app.status()).toBe("Error: Server restarting");
+});
+
+// Regression: the track handler used to read the call kind from the render that started the call,
+// so the second call of a session could route its tracks by the first call's kind.
+describe("App remote tracks", () => {
+  it("plays an audio call and then a video call on the elements for their kinds", async () => {
+    await app.click("Start Audio Call");
+    await app.answer("audio");
+    const audioTrack = await trigger(() => app.pc().receiveTrack("audio"));
+
+    expect(app.video()).toBeNull();
+    expect(app.audio()?.srcObject).toBeInstanceOf(FakeMediaStream);
+    expect(app.audio()?.srcObject).not.toBe(audioTrack.streams[0]);
+
+    await app.click("End Call");
+    await app.click("Start Video Call");
+    await app.answer("video");
+    const videoTrack = await trigger(() => app.pc().receiveTrack("video"));
+
+    expect(app.video()?.srcObject).toBe(videoTrack.streams[0]);
+    expect(app.video()?.muted).toBe(true);
+    expect(app.audio()?.srcObject).toBeFalsy();
+
+    const videoCallAudio = await trigger(() => app.pc().receiveTrack("audio"));
+
+    expect(app.audio()?.srcObject).toBeInstanceOf(FakeMediaStream);
+    expect(app.audio()?.srcObject).not.toBe(videoCallAudio.streams[0]);
+    expect(app.video()?.srcObject).toBe(videoTrack.streams[0]);
+  });
+
+  it("does not play a video track that arrives on an audio call", async () => {
+    await app.click("Start Audio Call");
+    await app.answer("audio");
+
+    await trigger(() => app.pc().receiveTrack("video"));
+
+    expect(app.video()).toBeNull();
+    expect(app.audio()?.srcObject).toBeFalsy();
+  });
+});
+
+describe("App video wall", () => {
+  it("dials each tile's dashcam once under StrictMode and hangs up when it is removed", async () => {
+    await trigger(() => appSocket.receive("device-list", [{ id: DEVICE_ID, name: "Cab 12", socketId: DASHCAM_SOCKET, status: "online" }]));
+    await app.click("Video Wall (0/9)");
+
+    const deviceButton = [...app.container.querySelectorAll("button")].find((b) => b.querySelector("strong")?.textContent === "Cab 12");
+    await trigger(() => deviceButton?.click());
+    await settle(1000);
+
+    const { start, end } = SIGNALING_CHANNELS.video;
+    expect(appSocket.emittedPayloads(start)).toEqual([{ deviceId: DEVICE_ID }]);
+    expect(appSocket.emittedPayloads(end)).toEqual([]);
+
+    await app.answer("video");
+    await app.click("End");
+
+    expect(appSocket.emittedPayloads(start)).toHaveLength(1);
+    expect(appSocket.emittedPayloads(end)).toEqual([{ to: DASHCAM_SOCKET, deviceId: DEVICE_ID }]);
+    expect(app.peerConnections).toHaveLength(1);
+    expect(app.pc().closed).toBe(true);
+  });
+});
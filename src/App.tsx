@@ -1,81 +1,166 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useState, useCallback } from "react";
 import { socket } from "./sockets";
+import { useDevices } from "./devices/useDevices";
+import DeviceList from "./components/DeviceList";
+import VideoWall from "./components/VideoWall";
+import SettingsPanel from "./components/SettingsPanel";
+import LoginScreen from "./components/LoginScreen";
+import RecordingsPanel from "./components/RecordingsPanel";
+import StatsPanel from "./components/StatsPanel";
+import { useCallStats } from "./stats/useCallStats";
+import MediaControls from "./components/MediaControls";
+import DashcamControls from "./components/DashcamControls";
+import type { ControlChannel } from "./control/ControlChannel";
+import TelemetryMap from "./components/TelemetryMap";
+import { useTelemetry } from "./telemetry/useTelemetry";
+import AlertInbox from "./components/AlertInbox";
+import IncomingCalls from "./components/IncomingCalls";
+import SnapshotEditor, { type CapturedFrame } from "./components/SnapshotEditor";
+import SnapshotGallery from "./components/SnapshotGallery";
+import CallHistoryPanel from "./components/CallHistoryPanel";
+import DiagnosticsDrawer from "./components/DiagnosticsDrawer";
+import ConnectionBadge from "./components/ConnectionBadge";
+import AudioMeterPanel from "./components/AudioMeterPanel";
+import VideoViewport from "./components/VideoViewport";
+import TranscriptPanel from "./components/TranscriptPanel";
+import { useConnectionHealth } from "./sockets/useConnectionHealth";
+import { captureFrame } from "./snapshots/annotate";
+import { takeIncomingCall, type IncomingCall } from "./webrtc/incomingCalls";
+import { useIncomingCalls } from "./webrtc/useIncomingCalls";
+import { startRinging, stopRinging } from "./media/ringtone";
+import { onNewAlert } from "./alerts";
+import { startTranscription, stopTranscription } from "./transcription";
+import { useAlerts } from "./alerts/useAlerts";
+import { playAlertSound, requestNotificationPermission, showAlertNotification } from "./alerts/notify";
+import {
+  buildLocalMedia,
+  cameraConstraints,
+  loadMediaPreferences,
+  microphoneConstraints,
+  saveMediaPreferences,
+  supportsOutputSelection,
+  type MediaPreferences,
+} from "./media/devices";
+import { useMediaDevices } from "./media/useMediaDevices";
+import { usePushToTalk } from "./media/usePushToTalk";
+import { AudioPipeline, type AudioProcessingSettings } from "./media/AudioPipeline";
+import { useAudioLevels } from "./media/useAudioLevels";
+import { recoverInterruptedRecordings } from "./recordings";
+import { CallRecorder } from "./recordings/CallRecorder";
+import { formatDuration } from "./utils/format";
+import { createLogger } from "./logging";
+import { getVideoQualityProfile } from "./webrtc/videoQuality";
+import { hasPermission, isAuthError, logout } from "./auth";
+import { useAuth } from "./auth/useAuth";
+import { callRouter } from "./webrtc";
+import { getActiveCall, setActiveCall } from "./webrtc/activeCall";
+import { useActiveCall } from "./webrtc/useActiveCall";
+import type { CallSession, CallState } from "./webrtc/CallSession";
+import type { CallKind } from "./webrtc/signaling";
+
+const SELECTED_DEVICE_KEY = "selected-device-id";
+const MAX_WALL_TILES = 9;
+
+const mediaLog = createLogger("media");
+const socketLog = createLogger("socket");
+
+type ViewMode = "single" | "wall" | "alerts" | "recordings" | "history" | "settings";
 
 const App = () => {
-  const pcRef = useRef<RTCPeerConnection | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
+  const remoteStreamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<CallRecorder | null>(null);
+  // Also kept in a ref: call event handlers close over the render that started the call.
+  const audioPipelineRef = useRef<AudioPipeline | null>(null);
+  const [audioPipeline, setAudioPipeline] = useState<AudioPipeline | null>(null);
+  const audioLevels = useAudioLevels(audioPipeline);
   const [callStatus, setCallStatus] = useState("Ready to call");
-  const [audioLevel, setAudioLevel] = useState(0);
-  const [isCallActive, setIsCallActive] = useState(false);
-  const [isVideoCall, setIsVideoCall] = useState(false);
+  const activeCall = useActiveCall();
+  const isCallActive = activeCall.session !== null;
+  const isVideoCall = activeCall.kind === "video";
+  const statsSamples = useCallStats(activeCall.session?.pc ?? null);
+  const [mediaPreferences, setMediaPreferences] = useState<MediaPreferences>(loadMediaPreferences);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [isTalking, setIsTalking] = useState(false);
+  const [controlChannel, setControlChannel] = useState<ControlChannel | null>(null);
+  // Labels only become available after the first getUserMedia grant, so re-enumerate then.
+  const mediaDevices = useMediaDevices(localStream);
   const [videoStats, setVideoStats] = useState<string>("");
-
-  // Parse string-based ICE candidate to RTCIceCandidateInit
-  const parseIceCandidate = (candidate: RTCIceCandidateInit | string): RTCIceCandidateInit | null => {
-    if (typeof candidate === "string") {
-      try {
-        const parts = candidate.match(/candidate:(\S+) (\d+) (\w+) (\d+) (\S+) (\d+) typ (\w+)(.*)/);
-        if (!parts) {
-          console.warn("Failed to parse ICE candidate string:", candidate);
-          return null;
-        }
-        const [, foundation, component, protocol, priority, ip, port, type, rest] = parts;
-        const candidateObj: RTCIceCandidateInit = {
-          candidate: `candidate:${foundation} ${component} ${protocol} ${priority} ${ip} ${port} typ ${type}${rest}`,
-          sdpMid: rest.match(/sdpMid (\S+)/)?.[1] || "0",
-          sdpMLineIndex: parseInt(rest.match(/sdpMLineIndex (\d+)/)?.[1] || "0"),
-          usernameFragment: rest.match(/ufrag (\S+)/)?.[1] || undefined,
-        };
-        return candidateObj;
-      } catch (err) {
-        console.error("Error parsing ICE candidate string:", err);
-        return null;
-      }
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [snapshotFrame, setSnapshotFrame] = useState<CapturedFrame | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const devices = useDevices();
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_DEVICE_KEY)
+  );
+  const selectedDevice = devices.find((device) => device.id === selectedDeviceId);
+  const selectedDeviceLabel = selectedDevice?.name || selectedDeviceId || "No device selected";
+  const telemetryTrail = useTelemetry(selectedDeviceId);
+  const [viewMode, setViewMode] = useState<ViewMode>("single");
+  const [wallDeviceIds, setWallDeviceIds] = useState<string[]>([]);
+  const auth = useAuth();
+  const [authMessage, setAuthMessage] = useState<string | null>(null);
+  const canAudioCall = hasPermission(auth, "audio-call");
+  const canVideoCall = hasPermission(auth, "video-call");
+  const canViewSettings = hasPermission(auth, "settings");
+  const alerts = useAlerts();
+  const newAlertCount = alerts.filter((alert) => alert.status === "new").length;
+  const incomingCalls = useIncomingCalls();
+  const connectionHealth = useConnectionHealth();
+  const hasLiveCalls = isCallActive || (viewMode === "wall" && wallDeviceIds.length > 0);
+
+  const selectDevice = (deviceId: string) => {
+    if (viewMode === "wall") {
+      toggleWallDevice(deviceId);
+      return;
     }
-    return candidate as RTCIceCandidateInit;
+    setSelectedDeviceId(deviceId);
+    localStorage.setItem(SELECTED_DEVICE_KEY, deviceId);
+  };
+
+  const toggleWallDevice = (deviceId: string) => {
+    setWallDeviceIds((prev) => {
+      if (prev.includes(deviceId)) return prev.filter((id) => id !== deviceId);
+      if (prev.length >= MAX_WALL_TILES) return prev;
+      return [...prev, deviceId];
+    });
+  };
+
+  const removeWallDevice = (deviceId: string) => {
+    setWallDeviceIds((prev) => prev.filter((id) => id !== deviceId));
   };
 
-  const startAudioCall = async () => {
-    setCallStatus("Initiating audio call via socket...");
+  const startRecording = () => {
+    const { session } = getActiveCall();
+    if (!session || !remoteStreamRef.current) {
+      setCallStatus("Nothing to record yet - wait for the dashcam stream");
+      return;
+    }
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
-      localStreamRef.current = stream;
-      console.log("Admin mic access granted, tracks:", stream.getTracks());
-      socket.emit("start-call", { deviceId: "dashcam-001" });
-      setIsCallActive(true);
-      setIsVideoCall(false);
-    } catch (err: any) {
-      console.error("Admin mic access error:", err);
-      setCallStatus(`Microphone error: ${err.name} - ${err.message}`);
+      recorderRef.current = new CallRecorder(remoteStreamRef.current, session.deviceId, session.kind);
+      setRecordingStartedAt(recorderRef.current.startedAt);
+    } catch (err) {
+      mediaLog.error("Failed to start recording:", err);
+      setCallStatus(`Recording error: ${(err as Error).message}`);
     }
   };
 
-  const startVideoCall = async () => {
-    setCallStatus("Initiating video call via socket...");
-    socket.emit("start-video-call", { deviceId: "dashcam-001" });
-    setIsCallActive(true);
-    setIsVideoCall(true);
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setRecordingStartedAt(null);
+    recorder.stop().then((recording) => {
+      setCallStatus(`Recording saved (${formatDuration(recording.durationMs)})`);
+    }).catch((err) => {
+      setCallStatus(`Recording could not be saved: ${err.message}`);
+    });
   };
 
-  const endCall = () => {
-    if (pcRef.current) {
-      const remoteSocketId = pcRef.current.remoteDescription?.type
-        ? sessionStorage.getItem("dashcam-socket-id") || ""
-        : "";
-      socket.emit(isVideoCall ? "end-video-call" : "end-call", {
-        to: remoteSocketId,
-      });
-      pcRef.current.close();
-      pcRef.current = null;
-    }
+  const resetCallUi = (state: CallState) => {
+    stopRecording();
+    remoteStreamRef.current = null;
 
     if (audioRef.current) {
       audioRef.current.srcObject = null;
@@ -85,511 +170,613 @@ const App = () => {
       videoRef.current.srcObject = null;
     }
 
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach((track) => track.stop());
-      localStreamRef.current = null;
+    audioPipelineRef.current?.close();
+    audioPipelineRef.current = null;
+    setAudioPipeline(null);
+    stopTranscription();
+    setVideoStats("");
+
+    if (state === "ended") {
+      setTimeout(() => setCallStatus("Ready to call"), 2000);
+    }
+  };
+
+  const startCall = (kind: CallKind, deviceId = selectedDeviceId, acceptFrom?: string) => {
+    if (!deviceId) {
+      setCallStatus("Select a device first");
+      return;
     }
 
-    setCallStatus("Call ended");
-    setIsCallActive(false);
-    setIsVideoCall(false);
-    setAudioLevel(0);
-    setVideoStats("");
+    const localMedia = buildLocalMedia(mediaPreferences, {
+      audio: kind === "audio" || mediaPreferences.pushToTalk,
+      video: kind === "video" && mediaPreferences.sendCamera,
+    });
+    const session = callRouter.createSession({
+      kind,
+      deviceId,
+      localMedia,
+      acceptFrom,
+      videoQuality: getVideoQualityProfile(mediaPreferences.videoQuality),
+    });
+    session.setMicrophoneEnabled(!mediaPreferences.pushToTalk);
+    session.on("status", setCallStatus);
+    session.on("localStream", setLocalStream);
+    session.on("controlChannel", setControlChannel);
+    session.on("track", (event) => handleTrackReceived(event, session));
+    session.on("state", (state) => {
+      if (state === "ended" || state === "failed") resetCallUi(state);
+    });
 
-    setTimeout(() => setCallStatus("Ready to call"), 2000);
+    setActiveCall(session);
+    session.start();
   };
 
-  const setupAudioLevelMonitoring = (stream: MediaStream) => {
-    const audioContext = new AudioContext();
-    const analyser = audioContext.createAnalyser();
-    const source = audioContext.createMediaStreamSource(stream);
-    source.connect(analyser);
-
-    analyser.fftSize = 256;
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-
-    const updateLevel = () => {
-      if (pcRef.current?.connectionState === "connected") {
-        analyser.getByteFrequencyData(dataArray);
-        const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength;
-        setAudioLevel(Math.round((average / 255) * 100));
-        requestAnimationFrame(updateLevel);
-      }
-    };
+  const startAudioCall = () => startCall("audio");
+
+  const startVideoCall = () => startCall("video");
+
+  // Jump from an alert straight into a video call with the dashcam that raised it.
+  const startAlertVideoCall = (deviceId: string) => {
+    if (getActiveCall().session) return;
+    setSelectedDeviceId(deviceId);
+    localStorage.setItem(SELECTED_DEVICE_KEY, deviceId);
+    setViewMode("single");
+    startCall("video", deviceId);
+  };
+
+  const acceptIncomingCall = (incoming: IncomingCall) => {
+    if (getActiveCall().session) return;
+    const call = takeIncomingCall(incoming.id);
+    if (!call) return;
+    setSelectedDeviceId(call.deviceId);
+    localStorage.setItem(SELECTED_DEVICE_KEY, call.deviceId);
+    setViewMode("single");
+    startCall(call.kind, call.deviceId, call.from);
+  };
 
-    updateLevel();
+  const canAcceptCall = (call: IncomingCall) => (call.kind === "video" ? canVideoCall : canAudioCall);
+
+  const endCall = () => {
+    getActiveCall().session?.hangup();
   };
 
-  const handleTrackReceived = (event: RTCTrackEvent) => {
-    console.log("Track received:", event.track.kind, {
+  const updateMediaPreferences = (next: MediaPreferences) => {
+    const { session } = getActiveCall();
+    if (session && next.microphoneId !== mediaPreferences.microphoneId) {
+      session.switchInputDevice("audio", microphoneConstraints(next.microphoneId)).catch((err) => {
+        mediaLog.error("Failed to switch microphone:", err);
+        setCallStatus(`Microphone switch failed: ${err.message}`);
+      });
+    }
+    if (session && next.cameraId !== mediaPreferences.cameraId) {
+      session.switchInputDevice("video", cameraConstraints(next.cameraId)).catch((err) => {
+        mediaLog.error("Failed to switch camera:", err);
+        setCallStatus(`Camera switch failed: ${err.message}`);
+      });
+    }
+    if (session && next.videoQuality !== mediaPreferences.videoQuality) {
+      session.setVideoQuality(getVideoQualityProfile(next.videoQuality)).catch((err) => {
+        mediaLog.error("Failed to change video quality:", err);
+        setCallStatus(`Video quality change failed: ${err.message}`);
+      });
+    }
+    setMediaPreferences(next);
+    saveMediaPreferences(next);
+  };
+
+  const handleTalkingChange = useCallback((talking: boolean) => setIsTalking(talking), []);
+
+  usePushToTalk(mediaPreferences.pushToTalk && isCallActive, handleTalkingChange);
+
+  useEffect(() => {
+    activeCall.session?.setMicrophoneEnabled(!mediaPreferences.pushToTalk || isTalking);
+  }, [activeCall.session, mediaPreferences.pushToTalk, isTalking]);
+
+  useEffect(() => {
+    if (!audioRef.current || !supportsOutputSelection()) return;
+    audioRef.current.setSinkId(mediaPreferences.speakerId ?? "").catch((err) => {
+      mediaLog.error("Failed to set audio output device:", err);
+    });
+  }, [mediaPreferences.speakerId, isCallActive]);
+
+  useEffect(() => {
+    audioPipeline?.attachLocal(localStream);
+  }, [audioPipeline, localStream]);
+
+  useEffect(() => {
+    audioPipeline?.updateSettings(mediaPreferences.audioProcessing);
+  }, [audioPipeline, mediaPreferences.audioProcessing]);
+
+  useEffect(() => () => audioPipelineRef.current?.close(), []);
+
+  useEffect(() => {
+    recoverInterruptedRecordings().catch((err) => {
+      mediaLog.error("Failed to recover interrupted recordings:", err);
+    });
+  }, []);
+
+  const updateAudioProcessing = (audioProcessing: AudioProcessingSettings) =>
+    updateMediaPreferences({ ...mediaPreferences, audioProcessing });
+
+  const handleTrackReceived = (event: RTCTrackEvent, session: CallSession) => {
+    mediaLog.info("Track received:", event.track.kind, {
       id: event.track.id,
       enabled: event.track.enabled,
       readyState: event.track.readyState,
     });
 
     const [remoteStream] = event.streams;
+    remoteStreamRef.current = remoteStream;
 
-    if (event.track.kind === "video" && videoRef.current && isVideoCall) {
+    if (event.track.kind === "video" && videoRef.current && session.kind === "video") {
       videoRef.current.srcObject = remoteStream;
       videoRef.current.muted = true;
 
       videoRef.current.onloadedmetadata = () => {
-        setVideoStats(`${videoRef.current?.videoWidth}x${videoRef.current?.videoHeight}`);
-        console.log("Video metadata loaded:", videoStats);
+        const resolution = `${videoRef.current?.videoWidth}x${videoRef.current?.videoHeight}`;
+        setVideoStats(resolution);
+        mediaLog.info("Video metadata loaded:", resolution);
       };
       videoRef.current.onplaying = () => {
         setCallStatus("Video playing successfully");
       };
       videoRef.current.onerror = (e) => {
-        console.error("Video error:", e);
-        setCallStatus("Video error - check console");
+        mediaLog.error("Video error:", e);
+        setCallStatus("Video error - check diagnostics");
       };
 
       videoRef.current.play().then(() => {
-        console.log("Video playback started");
+        mediaLog.info("Video playback started");
         setCallStatus("Video connected and playing");
       }).catch((err) => {
-        console.error("Video autoplay failed:", err);
+        mediaLog.warn("Video autoplay failed:", err);
         setCallStatus("Video ready - Click to play");
       });
     }
 
     if (event.track.kind === "audio" && audioRef.current) {
-      audioRef.current.srcObject = remoteStream;
+      if (!audioPipelineRef.current) {
+        audioPipelineRef.current = new AudioPipeline(mediaPreferences.audioProcessing);
+        setAudioPipeline(audioPipelineRef.current);
+      }
+      audioRef.current.srcObject = audioPipelineRef.current.attachRemote(remoteStream);
+      startTranscription(session, remoteStream);
       audioRef.current.play().then(() => {
-        console.log("Audio playback started");
-        setupAudioLevelMonitoring(remoteStream);
+        mediaLog.info("Audio playback started");
       }).catch((err) => {
-        console.error("Audio autoplay failed:", err);
+        mediaLog.warn("Audio autoplay failed:", err);
         setCallStatus(`Audio play error: ${err.message}`);
       });
     }
   };
 
   useEffect(() => {
-    socket.on("connect", () => {
-      console.log("Socket connected:", socket.id);
-      setCallStatus("Socket connected, ready to call");
+    if (!auth) return;
+    requestNotificationPermission();
+    return onNewAlert((alert) => {
+      playAlertSound(alert.severity);
+      showAlertNotification(alert, () => {
+        // Switching views mid-call would unmount the call's media elements.
+        if (!getActiveCall().session) setViewMode("alerts");
+      });
     });
+  }, [auth]);
 
-    socket.on("connect_error", (err: any) => {
-      console.error("Socket connection error:", err);
-      setCallStatus(`Socket connection failed: ${err.message}`);
-    });
+  // Ring until every queued call is answered, but not over a call the operator is already on.
+  useEffect(() => {
+    if (auth && incomingCalls.length > 0 && !isCallActive) {
+      startRinging();
+    } else {
+      stopRinging();
+    }
+  }, [auth, incomingCalls.length, isCallActive]);
 
-    socket.on("webrtc-signal", async ({ from, data }: { from: string; data: any }) => {
-      if (isVideoCall) return;
-
-      try {
-        if (data.type === "ready") {
-          console.log("Dashcam ready for audio call, socket ID:", from);
-          setCallStatus("Dashcam ready - Creating audio offer...");
-
-          sessionStorage.setItem("dashcam-socket-id", from);
-
-          const pc = new RTCPeerConnection({
-            iceServers: [
-              { urls: "stun:stun.l.google.com:19302" },
-              { urls: "stun:stun1.l.google.com:19302" },
-              { urls: "stun:stun2.l.google.com:19302" },
-              {
-                urls: "turn:openrelay.metered.ca:80",
-                username: "openrelay",
-                credential: "openrelay",
-              },
-            ],
-          });
-          pcRef.current = pc;
-
-          const localStream = await navigator.mediaDevices.getUserMedia({
-            audio: {
-              echoCancellation: true,
-              noiseSuppression: true,
-              autoGainControl: true,
-            },
-          });
-
-          localStreamRef.current = localStream;
-          localStream.getTracks().forEach((track) => {
-            console.log(`Adding ${track.kind} track to peer connection`, {
-              id: track.id,
-              enabled: track.enabled,
-              readyState: track.readyState,
-            });
-            pc.addTrack(track, localStream);
-          });
-
-          pc.ontrack = handleTrackReceived;
-
-          pc.onicecandidate = (event) => {
-            if (event.candidate) {
-              console.log("Sending ICE candidate:", {
-                candidate: event.candidate.candidate,
-                sdpMid: event.candidate.sdpMid,
-                sdpMLineIndex: event.candidate.sdpMLineIndex,
-                usernameFragment: event.candidate.usernameFragment,
-              });
-              socket.emit("webrtc-signal", {
-                to: from,
-                data: {
-                  candidate: {
-                    candidate: event.candidate.candidate,
-                    sdpMid: event.candidate.sdpMid,
-                    sdpMLineIndex: event.candidate.sdpMLineIndex,
-                    usernameFragment: event.candidate.usernameFragment,
-                  },
-                },
-              });
-            }
-          };
-
-          pc.oniceconnectionstatechange = () => {
-            console.log("ICE connection state:", pc.iceConnectionState);
-            if (pc.iceConnectionState === "failed" || pc.iceConnectionState === "disconnected") {
-              setCallStatus("ICE connection failed");
-              setIsCallActive(false);
-              socket.emit("call-ended", { to: from });
-            }
-          };
-
-          pc.onconnectionstatechange = () => {
-            console.log("Audio connection state:", pc.connectionState);
-            if (pc.connectionState === "connected") {
-              setCallStatus("Audio connected");
-            } else if (pc.connectionState === "failed") {
-              setCallStatus("Audio connection failed");
-              setIsCallActive(false);
-              socket.emit("call-ended", { to: from });
-            } else {
-              setCallStatus(`Audio connecting... (${pc.connectionState})`);
-            }
-          };
-
-          const offer = await pc.createOffer({ offerToReceiveAudio: true });
-          await pc.setLocalDescription(offer);
-          socket.emit("webrtc-signal", { to: from, data: pc.localDescription });
-          console.log("Sent audio offer to:", from);
-          setCallStatus("Audio offer sent...");
-        } else if (data.type === "answer") {
-          console.log("Received audio answer:", data);
-          const pc = pcRef.current;
-          if (pc) {
-            await pc.setRemoteDescription(new RTCSessionDescription(data));
-            setCallStatus("Audio answer received...");
-          }
-        } else if (data.candidate) {
-          console.log("Received ICE candidate:", data.candidate);
-          const candidate = parseIceCandidate(data.candidate);
-          if (candidate && pcRef.current && pcRef.current.remoteDescription) {
-            await pcRef.current.addIceCandidate(new RTCIceCandidate(candidate));
-            console.log("Added ICE candidate:", candidate);
-          } else {
-            console.warn("Invalid or unprocessable ICE candidate:", data.candidate);
-          }
-        }
-      } catch (err: any) {
-        console.error("Audio WebRTC error:", err);
-        setCallStatus(`Audio connection error: ${err.message}`);
-      }
-    });
+  useEffect(() => stopRinging, []);
 
-    socket.on("webrtc-video-signal", async ({ from, data }: { from: string; data: any }) => {
-      if (!isVideoCall) return;
-
-      try {
-        if (data.type === "ready") {
-          console.log("Dashcam ready for video call, socket ID:", from);
-          setCallStatus("Dashcam ready - Creating video offer...");
-
-          sessionStorage.setItem("dashcam-socket-id", from);
-
-          const pc = new RTCPeerConnection({
-            iceServers: [
-              { urls: "stun:stun.l.google.com:19302" },
-              { urls: "stun:stun1.l.google.com:19302" },
-              { urls: "stun:stun2.l.google.com:19302" },
-              {
-                urls: "turn:openrelay.metered.ca:80",
-                username: "openrelay",
-                credential: "openrelay",
-              },
-            ],
-          });
-          pcRef.current = pc;
-
-          pc.ontrack = handleTrackReceived;
-
-          pc.onicecandidate = (event) => {
-            if (event.candidate) {
-              console.log("Sending ICE candidate:", {
-                candidate: event.candidate.candidate,
-                sdpMid: event.candidate.sdpMid,
-                sdpMLineIndex: event.candidate.sdpMLineIndex,
-                usernameFragment: event.candidate.usernameFragment,
-              });
-              socket.emit("webrtc-video-signal", {
-                to: from,
-                data: {
-                  candidate: {
-                    candidate: event.candidate.candidate,
-                    sdpMid: event.candidate.sdpMid,
-                    sdpMLineIndex: event.candidate.sdpMLineIndex,
-                    usernameFragment: event.candidate.usernameFragment,
-                  },
-                },
-              });
-            }
-          };
-
-          pc.oniceconnectionstatechange = () => {
-            console.log("ICE connection state:", pc.iceConnectionState);
-            if (pc.iceConnectionState === "failed" || pc.iceConnectionState === "disconnected") {
-              setCallStatus("ICE connection failed");
-              setIsCallActive(false);
-              socket.emit("video-call-ended", { to: from });
-            }
-          };
-
-          pc.onconnectionstatechange = () => {
-            console.log("Video connection state:", pc.connectionState);
-            if (pc.connectionState === "connected") {
-              setCallStatus("Video connected");
-            } else if (pc.connectionState === "failed") {
-              setCallStatus("Video connection failed");
-              setIsCallActive(false);
-              socket.emit("video-call-ended", { to: from });
-            } else {
-              setCallStatus(`Video connecting... (${pc.connectionState})`);
-            }
-          };
-
-          const offer = await pc.createOffer({
-            offerToReceiveAudio: true,
-            offerToReceiveVideo: true,
-          });
-          await pc.setLocalDescription(offer);
-          socket.emit("webrtc-video-signal", { to: from, data: pc.localDescription });
-          console.log("Sent video offer to:", from);
-          setCallStatus("Video offer sent...");
-        } else if (data.type === "answer") {
-          console.log("Received video answer:", data);
-          const pc = pcRef.current;
-          if (pc) {
-            await pc.setRemoteDescription(new RTCSessionDescription(data));
-            setCallStatus("Video answer received...");
-          }
-        } else if (data.candidate) {
-          console.log("Received ICE candidate:", data.candidate);
-          const candidate = parseIceCandidate(data.candidate);
-          if (candidate && pcRef.current && pcRef.current.remoteDescription) {
-            await pcRef.current.addIceCandidate(new RTCIceCandidate(candidate));
-            console.log("Added ICE candidate:", candidate);
-          } else {
-            console.warn("Invalid or unprocessable ICE candidate:", data.candidate);
-          }
-        }
-      } catch (err: any) {
-        console.error("Video WebRTC error:", err);
-        setCallStatus(`Video connection error: ${err.message}`);
+  useEffect(() => {
+    const handleConnect = () => {
+      socketLog.info("Socket connected:", socket.id);
+      setCallStatus("Socket connected, ready to call");
+    };
+
+    const handleConnectError = (err: Error) => {
+      socketLog.error("Socket connection error:", err);
+      if (isAuthError(err)) {
+        getActiveCall().session?.hangup();
+        setAuthMessage("Your session was rejected by the server - please sign in again");
+        logout();
+        return;
       }
-    });
+      setCallStatus(`Socket connection failed: ${err.message}`);
+    };
 
-    socket.on("call-ended", () => {
-      if (isVideoCall) return;
-      console.log("Audio call ended by Dashcam");
-      endCall();
-    });
+    const handleDisconnect = () => {
+      if (getActiveCall().session) setCallStatus("Signaling connection lost - reconnecting...");
+    };
 
-    socket.on("video-call-ended", () => {
-      if (!isVideoCall) return;
-      console.log("Video call ended by Dashcam");
-      endCall();
-    });
+    const handleError = (message: string) => {
+      socketLog.error("Socket error:", message);
+      const { session } = getActiveCall();
+      if (session) {
+        session.fail("error", `Error: ${message}`);
+      } else {
+        setCallStatus(`Error: ${message}`);
+      }
+    };
 
-    socket.on("error", (message: string) => {
-      console.error("Socket error:", message);
-      setCallStatus(`Error: ${message}`);
-      setIsCallActive(false);
-      setIsVideoCall(false);
-    });
+    socket.on("connect", handleConnect);
+    socket.on("connect_error", handleConnectError);
+    socket.on("disconnect", handleDisconnect);
+    socket.on("error", handleError);
 
     return () => {
-      socket.off("connect");
-      socket.off("connect_error");
-      socket.off("webrtc-signal");
-      socket.off("webrtc-video-signal");
-      socket.off("call-ended");
-      socket.off("video-call-ended");
-      socket.off("error");
-      if (pcRef.current) pcRef.current.close();
+      socket.off("connect", handleConnect);
+      socket.off("connect_error", handleConnectError);
+      socket.off("disconnect", handleDisconnect);
+      socket.off("error", handleError);
     };
-  }, [isVideoCall]);
+  }, []);
 
   const handleVideoClick = () => {
     if (videoRef.current) {
       videoRef.current.play().then(() => {
         setCallStatus("Video playing");
       }).catch((err) => {
-        console.error("Manual video play error:", err);
+        mediaLog.error("Manual video play error:", err);
         setCallStatus(`Video play error: ${err.message}`);
       });
     }
   };
 
+  const captureSnapshot = () => {
+    const { session } = getActiveCall();
+    if (!videoRef.current || !session) return;
+    try {
+      setSnapshotFrame({
+        canvas: captureFrame(videoRef.current),
+        deviceId: session.deviceId,
+        deviceLabel: selectedDeviceLabel,
+        capturedAt: Date.now(),
+      });
+    } catch (err) {
+      mediaLog.error("Snapshot capture failed:", err);
+      setCallStatus(`Snapshot failed: ${(err as Error).message}`);
+    }
+  };
+
   const handleAudioClick = () => {
+    audioPipelineRef.current?.resume();
     if (audioRef.current) {
       audioRef.current.play().then(() => {
         setCallStatus("Audio playing");
       }).catch((err) => {
-        console.error("Audio play error:", err);
+        mediaLog.error("Audio play error:", err);
         setCallStatus(`Audio play error: ${err.message}`);
       });
     }
   };
 
+  const signOut = () => {
+    getActiveCall().session?.hangup();
+    setAuthMessage(null);
+    logout();
+  };
+
+  if (!auth) {
+    return <LoginScreen message={authMessage} />;
+  }
+
   return (
     <div style={{ padding: "20px", fontFamily: "Arial, sans-serif" }}>
-      <h1>Admin Panel - Dashcam Monitor</h1>
-
-      <div style={{ marginBottom: "20px" }}>
-        <div>
-          <strong>Status:</strong> {callStatus}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h1>Admin Panel - Dashcam Monitor</h1>
+        <div style={{ fontSize: "13px" }}>
+          <ConnectionBadge />
+          {auth.operator.name} ({auth.operator.role})
+          <button onClick={() => setShowDiagnostics((prev) => !prev)} style={{ marginLeft: "10px", padding: "6px 14px" }}>
+            Diagnostics
+          </button>
+          <button onClick={signOut} style={{ marginLeft: "10px", padding: "6px 14px" }}>
+            Sign out
+          </button>
         </div>
-
-        {videoStats && (
-          <div>
-            <strong>Video Resolution:</strong> {videoStats}
-          </div>
-        )}
-
-        {isCallActive && (
-          <div style={{ marginTop: "10px" }}>
-            <strong>Audio Level:</strong>
-            <div
-              style={{
-                width: "200px",
-                height: "10px",
-                backgroundColor: "#ddd",
-                display: "inline-block",
-                position: "relative",
-                marginLeft: "10px",
-              }}
-            >
-              <div
-                style={{
-                  width: `${audioLevel}%`,
-                  height: "100%",
-                  backgroundColor: audioLevel > 50 ? "#4CAF50" : "#FFC107",
-                  transition: "width 0.1s",
-                }}
-              ></div>
-            </div>
-            <span style={{ marginLeft: "10px" }}>{audioLevel}%</span>
-          </div>
-        )}
       </div>
 
-      <div style={{ marginBottom: "20px" }}>
-        <button
-          onClick={startAudioCall}
-          disabled={isCallActive}
+      {hasLiveCalls && connectionHealth.status !== "connected" && (
+        <div
           style={{
-            padding: "10px 20px",
-            marginRight: "10px",
-            backgroundColor: isCallActive ? "#ccc" : "#4CAF50",
-            color: "white",
-            border: "none",
-            borderRadius: "4px",
-            cursor: isCallActive ? "not-allowed" : "pointer",
+            marginBottom: "15px",
+            padding: "10px 15px",
+            backgroundColor: "#ffebee",
+            border: "1px solid #f44336",
+            borderRadius: "8px",
+            color: "#c62828",
+            fontSize: "14px",
+            textAlign: "left",
           }}
         >
-          Start Audio Call
-        </button>
-
-        <button
-          onClick={startVideoCall}
-          disabled={isCallActive}
-          style={{
-            padding: "10px 20px",
-            marginRight: "10px",
-            backgroundColor: isCallActive ? "#ccc" : "#2196F3",
-            color: "white",
-            border: "none",
-            borderRadius: "4px",
-            cursor: isCallActive ? "not-allowed" : "pointer",
-          }}
-        >
-          Start Video Call
-        </button>
-
-        <button
-          onClick={endCall}
-          disabled={!isCallActive}
-          style={{
-            padding: "10px 20px",
-            backgroundColor: !isCallActive ? "#ccc" : "#f44336",
-            color: "white",
-            border: "none",
-            borderRadius: "4px",
-            cursor: !isCallActive ? "not-allowed" : "pointer",
-          }}
-        >
-          End Call
-        </button>
-      </div>
-
-      {isCallActive && isVideoCall && (
-        <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f0f0f0", borderRadius: "8px" }}>
-          <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Dashcam Video Feed</h3>
-          <video
-            ref={videoRef}
-            autoPlay
-            playsInline
-            muted
-            onClick={handleVideoClick}
-            style={{
-              width: "100%",
-              maxWidth: "640px",
-              height: "auto",
-              borderRadius: "8px",
-              backgroundColor: "#000",
-              border: "2px solid #ddd",
-              cursor: "pointer",
-            }}
-          />
-          <div style={{ fontSize: "12px", color: "#666", marginTop: "5px" }}>
-            Live video from dashcam-001 {videoStats && `(${videoStats})`}
-            <br />
-            Click video if it doesn't auto-play
-          </div>
+          <strong>Signaling connection lost.</strong> Calls in progress stay up while their media path holds, but
+          they cannot recover from network changes or be hung up on the dashcam side until the connection is back.
         </div>
       )}
 
-      {isCallActive && (
-        <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
-          <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Dashcam Audio</h3>
-          <audio
-            ref={audioRef}
-            controls
-            onClick={handleAudioClick}
-            style={{ width: "100%" }}
-            autoPlay
-            playsInline
+      <div style={{ display: "flex", gap: "20px", alignItems: "flex-start" }}>
+        <DeviceList
+          devices={devices}
+          selectedDeviceIds={viewMode === "wall" ? wallDeviceIds : selectedDeviceId ? [selectedDeviceId] : []}
+          onSelect={selectDevice}
+          disabled={isCallActive}
+        />
+
+        <div style={{ flex: 1 }}>
+          <IncomingCalls
+            calls={incomingCalls}
+            devices={devices}
+            canAccept={canAcceptCall}
+            busy={isCallActive}
+            onAccept={acceptIncomingCall}
           />
-          <div style={{ fontSize: "12px", color: "#666", marginTop: "5px" }}>
-            Audio from dashcam-001
+
+          <div style={{ marginBottom: "20px" }}>
+            <button
+              onClick={() => setViewMode("single")}
+              disabled={isCallActive}
+              style={{ padding: "6px 14px", fontWeight: viewMode === "single" ? "bold" : "normal" }}
+            >
+              Single Call
+            </button>
+            {canVideoCall && (
+              <button
+                onClick={() => setViewMode("wall")}
+                disabled={isCallActive}
+                style={{ padding: "6px 14px", marginLeft: "6px", fontWeight: viewMode === "wall" ? "bold" : "normal" }}
+              >
+                Video Wall ({wallDeviceIds.length}/{MAX_WALL_TILES})
+              </button>
+            )}
+            <button
+              onClick={() => setViewMode("alerts")}
+              disabled={isCallActive}
+              style={{
+                padding: "6px 14px",
+                marginLeft: "6px",
+                fontWeight: viewMode === "alerts" ? "bold" : "normal",
+                color: newAlertCount > 0 ? "#f44336" : undefined,
+              }}
+            >
+              Alerts{newAlertCount > 0 && ` (${newAlertCount})`}
+            </button>
+            <button
+              onClick={() => setViewMode("recordings")}
+              disabled={isCallActive}
+              style={{ padding: "6px 14px", marginLeft: "6px", fontWeight: viewMode === "recordings" ? "bold" : "normal" }}
+            >
+              Recordings
+            </button>
+            <button
+              onClick={() => setViewMode("history")}
+              disabled={isCallActive}
+              style={{ padding: "6px 14px", marginLeft: "6px", fontWeight: viewMode === "history" ? "bold" : "normal" }}
+            >
+              Call History
+            </button>
+            {canViewSettings && (
+              <button
+                onClick={() => setViewMode("settings")}
+                disabled={isCallActive}
+                style={{ padding: "6px 14px", marginLeft: "6px", fontWeight: viewMode === "settings" ? "bold" : "normal" }}
+              >
+                Settings
+              </button>
+            )}
           </div>
-        </div>
-      )}
 
-      <div style={{ marginTop: "10px", fontSize: "12px", color: "#666" }}>
-        Target Device: dashcam-001
-        <br />
-        Call Type: {isCallActive ? (isVideoCall ? "Video Call Active" : "Audio Call Active") : "Standby"}
-        <br />
-        Socket ID: {socket.id || "Not connected"}
+          {viewMode === "wall" && canVideoCall && (
+            <VideoWall router={callRouter} deviceIds={wallDeviceIds} devices={devices} onRemove={removeWallDevice} />
+          )}
+
+          {viewMode === "alerts" && (
+            <AlertInbox
+              devices={devices}
+              canVideoCall={canVideoCall}
+              callDisabled={isCallActive}
+              onStartVideoCall={startAlertVideoCall}
+            />
+          )}
+
+          {viewMode === "recordings" && (
+            <>
+              <RecordingsPanel />
+              <SnapshotGallery />
+            </>
+          )}
+
+          {viewMode === "history" && <CallHistoryPanel />}
+
+          {viewMode === "settings" && canViewSettings && <SettingsPanel />}
+
+          {viewMode === "single" && (
+            <>
+              <div style={{ marginBottom: "20px" }}>
+                <div>
+                  <strong>Status:</strong> {callStatus}
+                </div>
+
+                {videoStats && (
+                  <div>
+                    <strong>Video Resolution:</strong> {videoStats}
+                  </div>
+                )}
+              </div>
+
+              <div style={{ marginBottom: "20px" }}>
+                {canAudioCall && (
+                  <button
+                    onClick={startAudioCall}
+                    disabled={isCallActive || !selectedDeviceId}
+                    style={{
+                      padding: "10px 20px",
+                      marginRight: "10px",
+                      backgroundColor: isCallActive || !selectedDeviceId ? "#ccc" : "#4CAF50",
+                      color: "white",
+                      border: "none",
+                      borderRadius: "4px",
+                      cursor: isCallActive || !selectedDeviceId ? "not-allowed" : "pointer",
+                    }}
+                  >
+                    Start Audio Call
+                  </button>
+                )}
+
+                {canVideoCall && (
+                  <button
+                    onClick={startVideoCall}
+                    disabled={isCallActive || !selectedDeviceId}
+                    style={{
+                      padding: "10px 20px",
+                      marginRight: "10px",
+                      backgroundColor: isCallActive || !selectedDeviceId ? "#ccc" : "#2196F3",
+                      color: "white",
+                      border: "none",
+                      borderRadius: "4px",
+                      cursor: isCallActive || !selectedDeviceId ? "not-allowed" : "pointer",
+                    }}
+                  >
+                    Start Video Call
+                  </button>
+                )}
+
+                <button
+                  onClick={endCall}
+                  disabled={!isCallActive}
+                  style={{
+                    padding: "10px 20px",
+                    backgroundColor: !isCallActive ? "#ccc" : "#f44336",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: !isCallActive ? "not-allowed" : "pointer",
+                  }}
+                >
+                  End Call
+                </button>
+
+                {isCallActive && (
+                  <button
+                    onClick={recordingStartedAt ? stopRecording : startRecording}
+                    style={{
+                      padding: "10px 20px",
+                      marginLeft: "10px",
+                      backgroundColor: recordingStartedAt ? "#9c27b0" : "#607d8b",
+                      color: "white",
+                      border: "none",
+                      borderRadius: "4px",
+                      cursor: "pointer",
+                    }}
+                  >
+                    {recordingStartedAt ? "Stop Recording" : "Record"}
+                  </button>
+                )}
+
+                {recordingStartedAt && (
+                  <span style={{ marginLeft: "10px", color: "#f44336", fontSize: "13px" }}>
+                    ● Recording since {new Date(recordingStartedAt).toLocaleTimeString()}
+                  </span>
+                )}
+              </div>
+
+              <MediaControls
+                preferences={mediaPreferences}
+                devices={mediaDevices}
+                onChange={updateMediaPreferences}
+                isCallActive={isCallActive}
+                isTalking={isTalking}
+                onTalkingChange={handleTalkingChange}
+                localStream={localStream}
+              />
+
+              {isCallActive && activeCall.session && (
+                <StatsPanel
+                  samples={statsSamples}
+                  meta={{ deviceId: activeCall.session.deviceId, kind: activeCall.session.kind }}
+                />
+              )}
+
+              {isCallActive && isVideoCall && (
+                <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f0f0f0", borderRadius: "8px" }}>
+                  <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Dashcam Video Feed</h3>
+                  <div style={{ display: "flex", gap: "15px", alignItems: "flex-start" }}>
+                    <div style={{ flex: 1 }}>
+                      <VideoViewport
+                        videoRef={videoRef}
+                        deviceId={activeCall.session?.deviceId ?? ""}
+                        onClick={handleVideoClick}
+                        onResult={setCallStatus}
+                      />
+                      <div style={{ fontSize: "12px", color: "#666", marginTop: "5px" }}>
+                        Live video from {selectedDeviceLabel} {videoStats && `(${videoStats})`}
+                        <br />
+                        Click video if it doesn't auto-play
+                      </div>
+                      <button
+                        onClick={captureSnapshot}
+                        disabled={!videoStats}
+                        style={{ marginTop: "8px", padding: "6px 14px", fontSize: "13px" }}
+                      >
+                        Capture snapshot
+                      </button>
+                    </div>
+                    <DashcamControls channel={controlChannel} onResult={setCallStatus} />
+                  </div>
+                </div>
+              )}
+
+              {snapshotFrame && (
+                <SnapshotEditor frame={snapshotFrame} onClose={() => setSnapshotFrame(null)} onResult={setCallStatus} />
+              )}
+
+              {selectedDeviceId && <TelemetryMap trail={telemetryTrail} />}
+
+              {isCallActive && (
+                <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
+                  <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Dashcam Audio</h3>
+                  <audio
+                    ref={audioRef}
+                    controls
+                    onClick={handleAudioClick}
+                    style={{ width: "100%" }}
+                    autoPlay
+                    playsInline
+                  />
+                  <div style={{ fontSize: "12px", color: "#666", marginTop: "5px" }}>
+                    Audio from {selectedDeviceLabel}
+                  </div>
+                </div>
+              )}
+
+              {isCallActive && (
+                <AudioMeterPanel
+                  levels={audioLevels}
+                  settings={mediaPreferences.audioProcessing}
+                  onChange={updateAudioProcessing}
+                />
+              )}
+
+              {canAudioCall && <TranscriptPanel isCallActive={isCallActive} />}
+
+              <div style={{ marginTop: "10px", fontSize: "12px", color: "#666" }}>
+                Target Device: {selectedDeviceLabel}
+                <br />
+                Call Type: {isCallActive ? (isVideoCall ? "Video Call Active" : "Audio Call Active") : "Standby"}
+                <br />
+                Socket ID: {socket.id || "Not connected"}
+              </div>
+            </>
+          )}
+        </div>
       </div>
+
+      {showDiagnostics && <DiagnosticsDrawer statsSamples={statsSamples} onClose={() => setShowDiagnostics(false)} />}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import { socket } from "../sockets";
+import { getAuth } from "../auth";
+import type { Alert, AlertEvent, AlertSeverity } from "./types";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+const STATUS_RANK: Record<Alert["status"], number> = { new: 0, acknowledged: 1, resolved: 2 };
+
+const DEFAULT_SEVERITY: Record<string, AlertSeverity> = {
+  collision: "critical",
+  "harsh-braking": "high",
+  "driver-distraction": "medium",
+  "spoken-keyword": "high",
+};
+
+// Resolved alerts beyond this are dropped from the inbox, oldest first.
+const MAX_RESOLVED_ALERTS = 200;
+
+let alerts: Alert[] = [];
+const listeners = new Set<() => void>();
+const newAlertListeners = new Set<(alert: Alert) => void>();
+
+// Open alerts first, then by severity, then newest first.
+const compareAlerts = (a: Alert, b: Alert) =>
+  STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+  SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+  b.timestamp - a.timestamp;
+
+const setAlerts = (next: Alert[]) => {
+  const resolved = next.filter((alert) => alert.status === "resolved").sort((a, b) => b.timestamp - a.timestamp);
+  const dropped = new Set(resolved.slice(MAX_RESOLVED_ALERTS).map((alert) => alert.id));
+  alerts = next.filter((alert) => !dropped.has(alert.id)).sort(compareAlerts);
+  listeners.forEach((listener) => listener());
+};
+
+// Alerts detected in the admin itself (e.g. a spoken keyword) go through the same inbox,
+// sound and notification path as the ones the server sends.
+export const raiseAlert = (event: AlertEvent) => {
+  const alert: Alert = {
+    id: event.id ?? crypto.randomUUID(),
+    deviceId: event.deviceId,
+    type: event.type,
+    severity: event.severity ?? DEFAULT_SEVERITY[event.type] ?? "medium",
+    timestamp: event.timestamp ?? Date.now(),
+    message: event.message,
+    location: event.location,
+    status: "new",
+  };
+  if (alerts.some((existing) => existing.id === alert.id)) return;
+
+  log.info("Alert received:", alert.type, alert.deviceId, alert.severity);
+  setAlerts([...alerts, alert]);
+  newAlertListeners.forEach((listener) => listener(alert));
+};
+
+socket.on("dashcam-alert", raiseAlert);
+
+const updateAlert = (id: string, changes: Partial<Alert>) => {
+  setAlerts(alerts.map((alert) => (alert.id === id ? { ...alert, ...changes } : alert)));
+};
+
+const operatorName = () => getAuth()?.operator.name;
+
+export const getAlerts = () => alerts;
+
+export const subscribeAlerts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const onNewAlert = (listener: (alert: Alert) => void) => {
+  newAlertListeners.add(listener);
+  return () => {
+    newAlertListeners.delete(listener);
+  };
+};
+
+// Status changes are echoed to the server so other operators' inboxes stay in step.
+export const acknowledgeAlert = (id: string) => {
+  updateAlert(id, { status: "acknowledged", acknowledgedAt: Date.now(), acknowledgedBy: operatorName() });
+  socket.emit("alert-acknowledged", { id });
+};
+
+export const resolveAlert = (id: string) => {
+  updateAlert(id, { status: "resolved", resolvedAt: Date.now(), resolvedBy: operatorName() });
+  socket.emit("alert-resolved", { id });
+};
+
+export const clearResolvedAlerts = () => {
+  setAlerts(alerts.filter((alert) => alert.status !== "resolved"));
+};
@@ -0,0 +1,52 @@
+import type { Alert } from "./types";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+const ALERT_TONES: Record<Alert["severity"], number[]> = {
+  critical: [880, 660, 880, 660],
+  high: [880, 660],
+  medium: [660],
+  low: [],
+};
+
+let audioContext: AudioContext | null = null;
+
+// Short synthesized beeps, so no audio asset has to ship with the app.
+export const playAlertSound = (severity: Alert["severity"]) => {
+  const tones = ALERT_TONES[severity];
+  if (tones.length === 0) return;
+
+  audioContext ??= new AudioContext();
+  const start = audioContext.currentTime;
+  tones.forEach((frequency, index) => {
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start + index * 0.2);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + index * 0.2 + 0.18);
+    oscillator.connect(gain).connect(audioContext!.destination);
+    oscillator.start(start + index * 0.2);
+    oscillator.stop(start + index * 0.2 + 0.2);
+  });
+};
+
+export const requestNotificationPermission = () => {
+  if ("Notification" in window && Notification.permission === "default") {
+    Notification.requestPermission().catch((err) => log.error("Notification permission error:", err));
+  }
+};
+
+export const showAlertNotification = (alert: Alert, onClick: () => void) => {
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  const notification = new Notification(`${alert.severity.toUpperCase()}: ${alert.type} on ${alert.deviceId}`, {
+    body: alert.message ?? new Date(alert.timestamp).toLocaleString(),
+    tag: alert.id,
+    requireInteraction: alert.severity === "critical",
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
@@ -0,0 +1,26 @@
+export type AlertSeverity = "critical" | "high" | "medium" | "low";
+
+export type AlertStatus = "new" | "acknowledged" | "resolved";
+
+export type AlertType = "collision" | "harsh-braking" | "driver-distraction" | "spoken-keyword" | (string & {});
+
+// What the signaling server sends with `dashcam-alert`, or what `raiseAlert` is given.
+export interface AlertEvent {
+  id?: string;
+  deviceId: string;
+  type: AlertType;
+  severity?: AlertSeverity;
+  message?: string;
+  timestamp?: number;
+  location?: { lat: number; lon: number };
+}
+
+export interface Alert extends Required<Pick<AlertEvent, "id" | "deviceId" | "type" | "severity" | "timestamp">> {
+  message?: string;
+  location?: { lat: number; lon: number };
+  status: AlertStatus;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  resolvedAt?: number;
+  resolvedBy?: string;
+}
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getAlerts, subscribeAlerts } from ".";
+
+export const useAlerts = () => useSyncExternalStore(subscribeAlerts, getAlerts);
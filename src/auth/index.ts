@@ -0,0 +1,125 @@
+import axios from "axios";
+import { getConfig } from "../config";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+export type OperatorRole = "admin" | "operator" | "readonly";
+
+export type Permission = "audio-call" | "video-call" | "settings";
+
+export interface Operator {
+  id: string;
+  name: string;
+  role: OperatorRole;
+  // Server-side override of the role defaults below.
+  permissions?: Permission[];
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: number | null;
+  operator: Operator;
+}
+
+interface TokenResponse {
+  token: string;
+  expiresAt?: number;
+  operator?: Operator;
+}
+
+const AUTH_STORAGE_KEY = "admin-auth";
+// Refresh a token that expires within this window instead of presenting it.
+const REFRESH_THRESHOLD_MS = 60_000;
+
+export const ROLE_PERMISSIONS: Record<OperatorRole, Permission[]> = {
+  admin: ["audio-call", "video-call", "settings"],
+  operator: ["audio-call", "video-call"],
+  readonly: [],
+};
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AuthSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+let session: AuthSession | null = readStoredSession();
+const listeners = new Set<() => void>();
+
+const setSession = (next: AuthSession | null) => {
+  session = next;
+  if (next) {
+    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(next));
+  } else {
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const authUrl = (path: string) => `${getConfig().authUrl ?? getConfig().socketUrl}${path}`;
+
+export const getAuth = () => session;
+
+export const subscribeAuth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const login = async (username: string, password: string) => {
+  const { data } = await axios.post<TokenResponse>(authUrl("/auth/login"), { username, password });
+  if (!data.token || !data.operator) {
+    throw new Error("Login response did not include a token");
+  }
+  setSession({ token: data.token, expiresAt: data.expiresAt ?? null, operator: data.operator });
+  log.info("Logged in as", data.operator.name, `(${data.operator.role})`);
+};
+
+export const logout = () => {
+  setSession(null);
+};
+
+export const refreshToken = async () => {
+  if (!session) return null;
+  const { data } = await axios.post<TokenResponse>(authUrl("/auth/refresh"), null, {
+    headers: { Authorization: `Bearer ${session.token}` },
+  });
+  setSession({
+    token: data.token,
+    expiresAt: data.expiresAt ?? null,
+    operator: data.operator ?? session.operator,
+  });
+  return data.token;
+};
+
+// Token for the socket handshake. `forceRefresh` is set on reconnects so a long-lived
+// tab never reconnects with a token the server has already rotated.
+export const getHandshakeToken = async (forceRefresh: boolean) => {
+  if (!session) return null;
+  const expiresSoon = session.expiresAt !== null && session.expiresAt - Date.now() < REFRESH_THRESHOLD_MS;
+  if (!forceRefresh && !expiresSoon) return session.token;
+
+  try {
+    return await refreshToken();
+  } catch (err) {
+    log.error("Token refresh failed:", err);
+    return session?.token ?? null;
+  }
+};
+
+export const hasPermission = (auth: AuthSession | null, permission: Permission) => {
+  if (!auth) return false;
+  const permissions = auth.operator.permissions ?? ROLE_PERMISSIONS[auth.operator.role] ?? [];
+  return permissions.includes(permission);
+};
+
+// socket.io surfaces middleware rejections as `connect_error` with the server's message/data.
+export const isAuthError = (err: Error & { data?: { status?: number; code?: string } }) =>
+  err.data?.status === 401 ||
+  err.data?.code === "AUTH_FAILED" ||
+  /unauthori[sz]ed|invalid token|jwt|authentication/i.test(err.message);
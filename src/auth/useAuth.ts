@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getAuth, subscribeAuth } from ".";
+
+export const useAuth = () => useSyncExternalStore(subscribeAuth, getAuth);
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { acknowledgeAlert, clearResolvedAlerts, resolveAlert } from "../alerts";
+import { useAlerts } from "../alerts/useAlerts";
+import type { AlertSeverity, AlertStatus } from "../alerts/types";
+import type { Device } from "../devices/types";
+
+interface AlertInboxProps {
+  devices: Device[];
+  canVideoCall: boolean;
+  callDisabled: boolean;
+  onStartVideoCall: (deviceId: string) => void;
+}
+
+type StatusFilter = "open" | AlertStatus | "all";
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  critical: "#f44336",
+  high: "#ff9800",
+  medium: "#2196F3",
+  low: "#9e9e9e",
+};
+
+const buttonStyle = { padding: "4px 10px", marginLeft: "6px", fontSize: "12px" };
+
+const AlertInbox = ({ devices, canVideoCall, callDisabled, onStartVideoCall }: AlertInboxProps) => {
+  const alerts = useAlerts();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+
+  const visible = alerts.filter((alert) => {
+    if (statusFilter === "all") return true;
+    if (statusFilter === "open") return alert.status !== "resolved";
+    return alert.status === statusFilter;
+  });
+  const hasResolved = alerts.some((alert) => alert.status === "resolved");
+  const deviceName = (deviceId: string) => devices.find((device) => device.id === deviceId)?.name || deviceId;
+
+  return (
+    <div style={{ padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "10px" }}>
+        <h3 style={{ margin: 0, fontSize: "16px" }}>Alerts ({visible.length})</h3>
+        <div style={{ fontSize: "13px" }}>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}>
+            <option value="open">Open</option>
+            <option value="new">New</option>
+            <option value="acknowledged">Acknowledged</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+          <button onClick={clearResolvedAlerts} disabled={!hasResolved} style={buttonStyle}>
+            Clear resolved
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#666" }}>No alerts</div>
+      ) : (
+        visible.map((alert) => (
+          <div
+            key={alert.id}
+            style={{
+              padding: "10px",
+              marginBottom: "8px",
+              backgroundColor: "#fff",
+              borderLeft: `4px solid ${SEVERITY_COLORS[alert.severity]}`,
+              borderRadius: "4px",
+              opacity: alert.status === "resolved" ? 0.6 : 1,
+              fontSize: "13px",
+            }}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <div>
+                <strong style={{ color: SEVERITY_COLORS[alert.severity], textTransform: "uppercase" }}>
+                  {alert.severity}
+                </strong>{" "}
+                {alert.type} - {deviceName(alert.deviceId)}
+                {alert.status === "new" && (
+                  <span style={{ marginLeft: "6px", fontSize: "11px", color: "#fff", backgroundColor: "#f44336", padding: "1px 6px", borderRadius: "8px" }}>
+                    NEW
+                  </span>
+                )}
+              </div>
+              <div>
+                {canVideoCall && alert.status !== "resolved" && (
+                  <button
+                    onClick={() => onStartVideoCall(alert.deviceId)}
+                    disabled={callDisabled}
+                    style={{ ...buttonStyle, backgroundColor: callDisabled ? "#ccc" : "#2196F3", color: "white", border: "none", borderRadius: "4px", cursor: callDisabled ? "not-allowed" : "pointer" }}
+                  >
+                    Start video call
+                  </button>
+                )}
+                {alert.status === "new" && (
+                  <button onClick={() => acknowledgeAlert(alert.id)} style={buttonStyle}>
+                    Acknowledge
+                  </button>
+                )}
+                {alert.status !== "resolved" && (
+                  <button onClick={() => resolveAlert(alert.id)} style={buttonStyle}>
+                    Resolve
+                  </button>
+                )}
+              </div>
+            </div>
+            <div style={{ marginTop: "4px", color: "#666", fontSize: "12px" }}>
+              {new Date(alert.timestamp).toLocaleString()}
+              {alert.message && ` - ${alert.message}`}
+              {alert.location && ` (${alert.location.lat.toFixed(5)}, ${alert.location.lon.toFixed(5)})`}
+            </div>
+            {(alert.acknowledgedBy || alert.resolvedBy) && (
+              <div style={{ marginTop: "2px", color: "#999", fontSize: "11px" }}>
+                {alert.acknowledgedBy && `Acknowledged by ${alert.acknowledgedBy}`}
+                {alert.acknowledgedBy && alert.resolvedBy && " - "}
+                {alert.resolvedBy && `Resolved by ${alert.resolvedBy}`}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AlertInbox;
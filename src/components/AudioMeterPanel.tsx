@@ -0,0 +1,137 @@
+import type { AudioProcessingSettings } from "../media/AudioPipeline";
+import { MIN_DBFS, type MeterReading } from "../media/audioLevels";
+import type { AudioLevels } from "../media/useAudioLevels";
+
+interface AudioMeterPanelProps {
+  levels: AudioLevels;
+  settings: AudioProcessingSettings;
+  onChange: (settings: AudioProcessingSettings) => void;
+}
+
+const SCALE_MARKS = [-60, -40, -20, -10, -3, 0];
+
+const toPercent = (db: number) => Math.max(0, Math.min(100, ((db - MIN_DBFS) / -MIN_DBFS) * 100));
+
+const levelColor = (db: number) => (db >= -3 ? "#f44336" : db >= -12 ? "#ff9800" : "#4CAF50");
+
+const formatDb = (db: number) => (db <= MIN_DBFS ? "-inf" : db.toFixed(1));
+
+export const AudioMeter = ({ label, reading }: { label: string; reading: MeterReading | null }) => (
+  <div style={{ marginBottom: "10px" }}>
+    <div style={{ display: "flex", justifyContent: "space-between", fontSize: "12px", marginBottom: "3px" }}>
+      <span>{label}</span>
+      <span style={{ fontFamily: "monospace" }}>
+        {reading ? `${formatDb(reading.rmsDb)} dBFS (peak ${formatDb(reading.peakDb)})` : "no signal"}
+        <span
+          style={{
+            marginLeft: "8px",
+            padding: "0 6px",
+            borderRadius: "3px",
+            color: "white",
+            backgroundColor: reading?.clipping ? "#f44336" : "#ccc",
+          }}
+        >
+          CLIP
+        </span>
+      </span>
+    </div>
+    <div
+      role="meter"
+      aria-label={`${label} level`}
+      aria-valuemin={MIN_DBFS}
+      aria-valuemax={0}
+      aria-valuenow={reading ? Math.round(reading.rmsDb) : MIN_DBFS}
+      style={{ position: "relative", height: "12px", backgroundColor: "#ddd", borderRadius: "6px", overflow: "hidden" }}
+    >
+      {reading && (
+        <>
+          <div
+            style={{
+              width: `${toPercent(reading.rmsDb)}%`,
+              height: "100%",
+              backgroundColor: levelColor(reading.rmsDb),
+              transition: "width 0.05s",
+            }}
+          />
+          <div
+            style={{
+              position: "absolute",
+              top: 0,
+              left: `calc(${toPercent(reading.peakDb)}% - 2px)`,
+              width: "2px",
+              height: "100%",
+              backgroundColor: levelColor(reading.peakDb),
+            }}
+          />
+        </>
+      )}
+    </div>
+    <div style={{ position: "relative", height: "12px", fontSize: "10px", color: "#999" }}>
+      {SCALE_MARKS.map((mark) => (
+        <span key={mark} style={{ position: "absolute", left: `${toPercent(mark)}%`, transform: "translateX(-50%)" }}>
+          {mark}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+const AudioMeterPanel = ({ levels, settings, onChange }: AudioMeterPanelProps) => {
+  const update = (changes: Partial<AudioProcessingSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Audio Levels</h3>
+
+      <AudioMeter label="Dashcam" reading={levels.remote} />
+      <AudioMeter label="My microphone" reading={levels.local} />
+
+      <div style={{ display: "flex", gap: "15px", flexWrap: "wrap", fontSize: "12px", marginTop: "6px" }}>
+        <label style={{ flex: "1 1 160px" }}>
+          Gain: {settings.gainDb > 0 ? "+" : ""}
+          {settings.gainDb} dB
+          <input
+            type="range"
+            min={-20}
+            max={20}
+            step={1}
+            value={settings.gainDb}
+            onChange={(e) => update({ gainDb: Number(e.target.value) })}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <label style={{ flex: "1 1 160px" }}>
+          Listen volume: {Math.round(settings.listenVolume * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.listenVolume}
+            onChange={(e) => update({ listenVolume: Number(e.target.value) })}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <div style={{ flex: "1 1 160px" }}>
+          <label>
+            <input type="checkbox" checked={settings.noiseGate} onChange={(e) => update({ noiseGate: e.target.checked })} /> Noise
+            gate: {settings.noiseGateThresholdDb} dBFS
+          </label>
+          <input
+            type="range"
+            min={-80}
+            max={-20}
+            step={1}
+            value={settings.noiseGateThresholdDb}
+            disabled={!settings.noiseGate}
+            onChange={(e) => update({ noiseGateThresholdDb: Number(e.target.value) })}
+            aria-label="Noise gate threshold"
+            style={{ width: "100%" }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioMeterPanel;
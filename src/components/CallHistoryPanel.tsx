@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { callRecordsToCsv, END_REASON_LABELS, listCallRecords, subscribeCallHistory, type CallRecord } from "../history";
+import { transcriptToText } from "../transcription";
+import { downloadBlob, formatDuration } from "../utils/format";
+import type { CallEndReason } from "../webrtc/CallSession";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+const rowStyle = { padding: "6px 8px", borderBottom: "1px solid #eee", textAlign: "left" as const };
+const filterStyle = { marginRight: "8px", fontSize: "13px" };
+
+interface HistoryFilters {
+  deviceId: string;
+  operator: string;
+  kind: string;
+  endReason: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: HistoryFilters = { deviceId: "", operator: "", kind: "", endReason: "", from: "", to: "" };
+
+const matchesFilters = (record: CallRecord, filters: HistoryFilters) => {
+  if (filters.deviceId && record.deviceId !== filters.deviceId) return false;
+  if (filters.operator && record.operatorName !== filters.operator) return false;
+  if (filters.kind && record.kind !== filters.kind) return false;
+  if (filters.endReason && record.endReason !== filters.endReason) return false;
+  // Date inputs are local calendar days; `to` includes the whole day.
+  if (filters.from && record.startedAt < new Date(`${filters.from}T00:00`).getTime()) return false;
+  if (filters.to && record.startedAt > new Date(`${filters.to}T23:59:59.999`).getTime()) return false;
+  return true;
+};
+
+const formatPeak = (record: CallRecord) => {
+  const parts = [`${record.peakBitrateKbps} kbps`];
+  if (record.peakFrameWidth && record.peakFrameHeight) parts.push(`${record.peakFrameWidth}x${record.peakFrameHeight}`);
+  if (record.peakFramesPerSecond !== null) parts.push(`${record.peakFramesPerSecond} fps`);
+  if (record.maxRttMs !== null) parts.push(`RTT ${record.maxRttMs} ms`);
+  if (record.packetsLost > 0) parts.push(`${record.packetsLost} lost`);
+  return parts.join(", ");
+};
+
+const CallHistoryPanel = () => {
+  const [records, setRecords] = useState<CallRecord[]>([]);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      listCallRecords()
+        .then(setRecords)
+        .catch((err) => {
+          log.error("Failed to load call history:", err);
+          setError(`Failed to load call history: ${err.message}`);
+        });
+    };
+
+    refresh();
+    return subscribeCallHistory(refresh);
+  }, []);
+
+  const visible = records.filter((record) => matchesFilters(record, filters));
+  const deviceIds = [...new Set(records.map((record) => record.deviceId))].sort();
+  const operators = [...new Set(records.flatMap((record) => (record.operatorName ? [record.operatorName] : [])))].sort();
+
+  const setFilter = (name: keyof HistoryFilters, value: string) => setFilters((prev) => ({ ...prev, [name]: value }));
+
+  const downloadTranscript = (record: CallRecord) => {
+    const blob = new Blob([transcriptToText(record.transcript ?? [])], { type: "text/plain" });
+    downloadBlob(blob, `transcript-${record.deviceId}-${new Date(record.startedAt).toISOString().replace(/[:.]/g, "-")}.txt`);
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([callRecordsToCsv(visible)], { type: "text/csv" });
+    downloadBlob(blob, `call-history-${new Date().toISOString().replace(/[:.]/g, "-")}.csv`);
+  };
+
+  return (
+    <div style={{ padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "10px" }}>
+        <h3 style={{ margin: 0, fontSize: "16px" }}>
+          Call History ({visible.length}
+          {visible.length !== records.length && ` of ${records.length}`})
+        </h3>
+        <button onClick={exportCsv} disabled={visible.length === 0} style={{ padding: "6px 14px" }}>
+          Export CSV
+        </button>
+      </div>
+
+      {error && <div style={{ color: "#f44336", fontSize: "13px", marginBottom: "10px" }}>{error}</div>}
+
+      <div style={{ marginBottom: "10px" }}>
+        <select value={filters.deviceId} onChange={(e) => setFilter("deviceId", e.target.value)} style={filterStyle}>
+          <option value="">All devices</option>
+          {deviceIds.map((id) => (
+            <option key={id} value={id}>
+              {id}
+            </option>
+          ))}
+        </select>
+        <select value={filters.operator} onChange={(e) => setFilter("operator", e.target.value)} style={filterStyle}>
+          <option value="">All operators</option>
+          {operators.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select value={filters.kind} onChange={(e) => setFilter("kind", e.target.value)} style={filterStyle}>
+          <option value="">All types</option>
+          <option value="audio">Audio</option>
+          <option value="video">Video</option>
+        </select>
+        <select value={filters.endReason} onChange={(e) => setFilter("endReason", e.target.value)} style={filterStyle}>
+          <option value="">Any end reason</option>
+          {(Object.keys(END_REASON_LABELS) as CallEndReason[]).map((reason) => (
+            <option key={reason} value={reason}>
+              {END_REASON_LABELS[reason]}
+            </option>
+          ))}
+        </select>
+        <input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} style={filterStyle} />
+        <input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} style={filterStyle} />
+        <button onClick={() => setFilters(EMPTY_FILTERS)} style={{ fontSize: "13px" }}>
+          Reset
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#666" }}>No calls</div>
+      ) : (
+        <table style={{ borderCollapse: "collapse", fontSize: "13px", width: "100%" }}>
+          <thead>
+            <tr>
+              <th style={rowStyle}>Started</th>
+              <th style={rowStyle}>Ended</th>
+              <th style={rowStyle}>Device</th>
+              <th style={rowStyle}>Type</th>
+              <th style={rowStyle}>Operator</th>
+              <th style={rowStyle}>Duration</th>
+              <th style={rowStyle}>End reason</th>
+              <th style={rowStyle}>Peak quality</th>
+              <th style={rowStyle}>Transcript</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((record) => (
+              <tr key={record.id}>
+                <td style={rowStyle}>{new Date(record.startedAt).toLocaleString()}</td>
+                <td style={rowStyle}>{new Date(record.endedAt).toLocaleTimeString()}</td>
+                <td style={rowStyle}>{record.deviceId}</td>
+                <td style={rowStyle}>
+                  {record.kind}
+                  {record.direction === "incoming" && " (incoming)"}
+                </td>
+                <td style={rowStyle}>{record.operatorName ?? "-"}</td>
+                <td style={rowStyle}>{record.connectedAt === null ? "Not connected" : formatDuration(record.durationMs)}</td>
+                <td style={{ ...rowStyle, color: record.outcome === "failed" ? "#f44336" : undefined }} title={record.endMessage}>
+                  {END_REASON_LABELS[record.endReason]}
+                </td>
+                <td style={rowStyle}>{formatPeak(record)}</td>
+                <td style={rowStyle}>
+                  {record.transcript?.length ? (
+                    <button onClick={() => downloadTranscript(record)} title={`${record.transcript.length} lines`}>
+                      Download
+                      {record.transcript.some((segment) => segment.keywords.length > 0) && " (keywords)"}
+                    </button>
+                  ) : (
+                    "-"
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CallHistoryPanel;
@@ -0,0 +1,47 @@
+import { reconnectSocket } from "../sockets/health";
+import { useConnectionHealth } from "../sockets/useConnectionHealth";
+
+const STATUS_COLORS = {
+  connected: "#4CAF50",
+  connecting: "#ff9800",
+  reconnecting: "#ff9800",
+  offline: "#f44336",
+};
+
+const ConnectionBadge = () => {
+  const health = useConnectionHealth();
+
+  const label =
+    health.status === "connected"
+      ? `Connected${health.latencyMs !== null ? ` - ${health.latencyMs} ms` : ""}`
+      : health.status === "reconnecting"
+        ? `Reconnecting ${health.attempt}/${health.maxAttempts}`
+        : health.status === "connecting"
+          ? "Connecting..."
+          : "Offline";
+
+  return (
+    <span style={{ display: "inline-flex", alignItems: "center", marginRight: "10px" }} title={health.lastError ?? undefined}>
+      <span
+        style={{
+          display: "inline-block",
+          padding: "4px 10px",
+          borderRadius: "12px",
+          backgroundColor: STATUS_COLORS[health.status],
+          color: "white",
+          fontSize: "12px",
+          fontWeight: "bold",
+        }}
+      >
+        {label}
+      </span>
+      {health.status !== "connected" && (
+        <button onClick={reconnectSocket} style={{ marginLeft: "6px", padding: "4px 10px", fontSize: "12px" }}>
+          Reconnect now
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default ConnectionBadge;
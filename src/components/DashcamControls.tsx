@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import type { ControlChannel } from "../control/ControlChannel";
+import { describeCommand, type CameraPosition, type ControlCommand, type SnapshotResult } from "../control/protocol";
+
+interface DashcamControlsProps {
+  channel: ControlChannel | null;
+  onResult: (message: string) => void;
+}
+
+const RESOLUTIONS = [
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "720p", width: 1280, height: 720 },
+  { label: "360p", width: 640, height: 360 },
+];
+
+const FRAME_RATES = [10, 15, 24, 30];
+
+const buttonStyle = { padding: "6px 10px", marginRight: "4px", marginBottom: "4px" };
+
+const DashcamControls = ({ channel, onResult }: DashcamControlsProps) => {
+  const [isOpen, setIsOpen] = useState(channel?.isOpen ?? false);
+  const [pendingCommand, setPendingCommand] = useState<string | null>(null);
+  const [camera, setCamera] = useState<CameraPosition>("front");
+  const [nightMode, setNightMode] = useState(false);
+  const [snapshot, setSnapshot] = useState<SnapshotResult | null>(null);
+
+  useEffect(() => {
+    setIsOpen(channel?.isOpen ?? false);
+    return channel?.onOpenChange(setIsOpen);
+  }, [channel]);
+
+  const sendCommand = async (command: ControlCommand, onAck?: () => void) => {
+    if (!channel) return;
+    const description = describeCommand(command);
+    setPendingCommand(command.type);
+    try {
+      const ack = await channel.send(command);
+      if (ack.ok) {
+        onAck?.();
+        if (ack.snapshot) setSnapshot(ack.snapshot);
+        onResult(`${description}: acknowledged`);
+      } else {
+        onResult(`${description}: rejected by dashcam (${ack.error || "no reason given"})`);
+      }
+    } catch (err) {
+      onResult(`${description}: failed (${(err as Error).message})`);
+    } finally {
+      setPendingCommand(null);
+    }
+  };
+
+  const disabled = !isOpen || pendingCommand !== null;
+  const snapshotUrl = snapshot ? `data:${snapshot.mimeType};base64,${snapshot.imageBase64}` : null;
+
+  return (
+    <div style={{ width: "220px", fontSize: "12px" }}>
+      <h4 style={{ margin: "0 0 8px 0", fontSize: "14px" }}>Dashcam Controls</h4>
+      <div style={{ color: isOpen ? "#4CAF50" : "#666", marginBottom: "8px" }}>
+        Control channel: {isOpen ? "open" : "not connected"}
+        {pendingCommand && ` · sending ${pendingCommand}...`}
+      </div>
+
+      <div style={{ marginBottom: "8px" }}>
+        <div>Camera</div>
+        {(["front", "rear"] as CameraPosition[]).map((position) => (
+          <button
+            key={position}
+            disabled={disabled || camera === position}
+            onClick={() => sendCommand({ type: "switch-camera", camera: position }, () => setCamera(position))}
+            style={{ ...buttonStyle, fontWeight: camera === position ? "bold" : "normal" }}
+          >
+            {position === "front" ? "Front" : "Rear"}
+          </button>
+        ))}
+      </div>
+
+      <label style={{ display: "block", marginBottom: "8px" }}>
+        Resolution
+        <select
+          disabled={disabled}
+          defaultValue=""
+          onChange={(e) => {
+            const resolution = RESOLUTIONS.find((r) => r.label === e.target.value);
+            if (resolution) sendCommand({ type: "set-resolution", width: resolution.width, height: resolution.height });
+          }}
+          style={{ width: "100%", padding: "4px", marginTop: "2px" }}
+        >
+          <option value="" disabled>
+            Choose...
+          </option>
+          {RESOLUTIONS.map((resolution) => (
+            <option key={resolution.label} value={resolution.label}>
+              {resolution.label} ({resolution.width}x{resolution.height})
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={{ display: "block", marginBottom: "8px" }}>
+        Frame rate
+        <select
+          disabled={disabled}
+          defaultValue=""
+          onChange={(e) => sendCommand({ type: "set-frame-rate", fps: Number(e.target.value) })}
+          style={{ width: "100%", padding: "4px", marginTop: "2px" }}
+        >
+          <option value="" disabled>
+            Choose...
+          </option>
+          {FRAME_RATES.map((fps) => (
+            <option key={fps} value={fps}>
+              {fps} fps
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div style={{ marginBottom: "8px" }}>
+        <button
+          disabled={disabled}
+          onClick={() => sendCommand({ type: "set-night-mode", enabled: !nightMode }, () => setNightMode(!nightMode))}
+          style={buttonStyle}
+        >
+          IR/Night mode: {nightMode ? "On" : "Off"}
+        </button>
+        <button disabled={disabled} onClick={() => sendCommand({ type: "snapshot" })} style={buttonStyle}>
+          Request Snapshot
+        </button>
+      </div>
+
+      {snapshotUrl && (
+        <div>
+          <img src={snapshotUrl} alt="Dashcam snapshot" style={{ width: "100%", borderRadius: "4px" }} />
+          <a href={snapshotUrl} download={`snapshot-${Date.now()}.${snapshot?.mimeType.split("/")[1] ?? "jpg"}`}>
+            Download snapshot
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashcamControls;
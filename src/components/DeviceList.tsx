@@ -0,0 +1,99 @@
+import { useState } from "react";
+import type { Device } from "../devices/types";
+
+interface DeviceListProps {
+  devices: Device[];
+  selectedDeviceIds: string[];
+  onSelect: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+const formatLastSeen = (lastSeen?: number) => {
+  if (!lastSeen) return "never";
+  return new Date(lastSeen).toLocaleString();
+};
+
+const DeviceList = ({ devices, selectedDeviceIds, onSelect, disabled = false }: DeviceListProps) => {
+  const [query, setQuery] = useState("");
+  const [onlineOnly, setOnlineOnly] = useState(false);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = devices
+    .filter((device) => !onlineOnly || device.status === "online")
+    .filter((device) =>
+      !normalizedQuery ||
+      [device.id, device.name, device.vehicle].some((value) => value?.toLowerCase().includes(normalizedQuery))
+    )
+    .sort((a, b) => {
+      if (a.status !== b.status) return a.status === "online" ? -1 : 1;
+      return a.id.localeCompare(b.id);
+    });
+
+  const onlineCount = devices.filter((device) => device.status === "online").length;
+
+  return (
+    <div style={{ width: "280px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+        Fleet ({onlineCount}/{devices.length} online)
+      </h3>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search device or vehicle..."
+        style={{ width: "100%", padding: "6px", boxSizing: "border-box", marginBottom: "8px" }}
+      />
+
+      <label style={{ display: "block", fontSize: "12px", marginBottom: "10px" }}>
+        <input type="checkbox" checked={onlineOnly} onChange={(e) => setOnlineOnly(e.target.checked)} /> Online only
+      </label>
+
+      <div style={{ maxHeight: "400px", overflowY: "auto" }}>
+        {filtered.length === 0 && (
+          <div style={{ fontSize: "12px", color: "#666" }}>No devices found</div>
+        )}
+
+        {filtered.map((device) => {
+          const isSelected = selectedDeviceIds.includes(device.id);
+          return (
+            <button
+              key={device.id}
+              onClick={() => onSelect(device.id)}
+              disabled={disabled && !isSelected}
+              style={{
+                display: "block",
+                width: "100%",
+                textAlign: "left",
+                padding: "8px",
+                marginBottom: "4px",
+                border: isSelected ? "2px solid #2196F3" : "1px solid #ddd",
+                borderRadius: "4px",
+                backgroundColor: isSelected ? "#e3f2fd" : "white",
+                cursor: disabled ? "not-allowed" : "pointer",
+              }}
+            >
+              <span
+                style={{
+                  display: "inline-block",
+                  width: "8px",
+                  height: "8px",
+                  borderRadius: "50%",
+                  marginRight: "8px",
+                  backgroundColor: device.status === "online" ? "#4CAF50" : "#9e9e9e",
+                }}
+              ></span>
+              <strong>{device.name || device.id}</strong>
+              {device.vehicle && <span style={{ color: "#666" }}> · {device.vehicle}</span>}
+              <div style={{ fontSize: "11px", color: "#666", marginTop: "2px" }}>
+                {device.id} · {device.status === "online" ? "Online" : `Last seen ${formatLastSeen(device.lastSeen)}`}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceList;
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { clearLog, isLevelAtLeast, LOG_LEVELS, LOG_NAMESPACES, type LogEntry, type LogLevel, type LogNamespace } from "../logging";
+import { buildDebugBundle } from "../logging/debugBundle";
+import { useLogEntries } from "../logging/useLogEntries";
+import type { StatsSample } from "../stats/StatsCollector";
+import { downloadBlob } from "../utils/format";
+
+interface DiagnosticsDrawerProps {
+  statsSamples: StatsSample[];
+  onClose: () => void;
+}
+
+// Rendering thousands of rows on every log line would stall the call UI.
+const MAX_VISIBLE_ENTRIES = 300;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "#9e9e9e",
+  info: "#2196F3",
+  warn: "#ff9800",
+  error: "#f44336",
+};
+
+const formatData = (data: unknown[]) =>
+  data.map((value) => (typeof value === "string" ? value : JSON.stringify(value))).join(" ");
+
+const matches = (entry: LogEntry, level: LogLevel, namespace: LogNamespace | "", search: string) =>
+  isLevelAtLeast(entry.level, level) &&
+  (!namespace || entry.namespace === namespace) &&
+  (!search || `${entry.message} ${formatData(entry.data)}`.toLowerCase().includes(search));
+
+const DiagnosticsDrawer = ({ statsSamples, onClose }: DiagnosticsDrawerProps) => {
+  const entries = useLogEntries();
+  const [level, setLevel] = useState<LogLevel>("info");
+  const [namespace, setNamespace] = useState<LogNamespace | "">("");
+  const [search, setSearch] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const filtered = entries.filter((entry) => matches(entry, level, namespace, search.trim().toLowerCase()));
+  const visible = filtered.slice(-MAX_VISIBLE_ENTRIES);
+
+  const downloadBundle = async () => {
+    setError(null);
+    try {
+      const bundle = await buildDebugBundle(statsSamples);
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+      downloadBlob(blob, `debug-bundle-${new Date().toISOString().replace(/[:.]/g, "-")}.json`);
+    } catch (err) {
+      setError(`Could not build debug bundle: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: 0,
+        right: 0,
+        bottom: 0,
+        height: "40vh",
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: "#fff",
+        borderTop: "2px solid #ddd",
+        boxShadow: "0 -2px 8px rgba(0, 0, 0, 0.15)",
+        fontSize: "12px",
+        textAlign: "left",
+        zIndex: 1000,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "8px", padding: "8px 12px", borderBottom: "1px solid #eee" }}>
+        <strong style={{ fontSize: "14px" }}>Diagnostics</strong>
+        <select value={level} onChange={(e) => setLevel(e.target.value as LogLevel)}>
+          {LOG_LEVELS.map((l) => (
+            <option key={l} value={l}>
+              {l}+
+            </option>
+          ))}
+        </select>
+        <select value={namespace} onChange={(e) => setNamespace(e.target.value as LogNamespace | "")}>
+          <option value="">All namespaces</option>
+          {LOG_NAMESPACES.map((ns) => (
+            <option key={ns} value={ns}>
+              {ns}
+            </option>
+          ))}
+        </select>
+        <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search" style={{ width: "160px" }} />
+        <span style={{ color: "#666" }}>
+          {visible.length < filtered.length ? `last ${visible.length} of ${filtered.length}` : filtered.length} events
+        </span>
+        <span style={{ flex: 1 }} />
+        {error && <span style={{ color: "#f44336" }}>{error}</span>}
+        <button onClick={downloadBundle}>Download debug bundle</button>
+        <button onClick={clearLog}>Clear</button>
+        <button onClick={onClose}>Close</button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: "auto", padding: "4px 12px", fontFamily: "monospace" }}>
+        {visible.map((entry) => (
+          <div key={entry.id} style={{ whiteSpace: "pre-wrap", wordBreak: "break-all", borderBottom: "1px solid #f5f5f5" }}>
+            <span style={{ color: "#999" }}>{new Date(entry.timestamp).toLocaleTimeString()}</span>{" "}
+            <span style={{ color: LEVEL_COLORS[entry.level], fontWeight: "bold" }}>{entry.level.toUpperCase()}</span>{" "}
+            <span style={{ color: "#666" }}>[{entry.namespace}]</span> {entry.message}
+            {entry.data.length > 0 && <span style={{ color: "#555" }}> {formatData(entry.data)}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsDrawer;
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import type { Device } from "../devices/types";
+import { declineIncomingCall, type IncomingCall } from "../webrtc/incomingCalls";
+import { formatDuration } from "../utils/format";
+
+interface IncomingCallsProps {
+  calls: IncomingCall[];
+  devices: Device[];
+  canAccept: (call: IncomingCall) => boolean;
+  // A call is already in progress; new ones wait in the queue until it ends.
+  busy: boolean;
+  onAccept: (call: IncomingCall) => void;
+}
+
+const IncomingCalls = ({ calls, devices, canAccept, busy, onAccept }: IncomingCallsProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (calls.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [calls.length]);
+
+  if (calls.length === 0) return null;
+
+  const [current, ...waiting] = calls;
+  const device = devices.find((d) => d.id === current.deviceId);
+  const acceptDisabled = busy || !canAccept(current);
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "15px",
+        backgroundColor: "#fff3e0",
+        border: "2px solid #ff9800",
+        borderRadius: "8px",
+        textAlign: "left",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h3 style={{ margin: "0 0 6px 0", fontSize: "16px" }}>
+            Incoming {current.kind} call{current.reason && ` - ${current.reason.toUpperCase()}`}
+          </h3>
+          <div style={{ fontSize: "14px" }}>
+            <strong>{device?.name || current.deviceId}</strong>
+            {device?.name && <span style={{ color: "#666" }}> ({current.deviceId})</span>}
+            {device?.vehicle && <span> - {device.vehicle}</span>}
+            {device && <span style={{ color: device.status === "online" ? "#4CAF50" : "#999" }}> - {device.status}</span>}
+          </div>
+          <div style={{ fontSize: "12px", color: "#666", marginTop: "4px" }}>
+            Ringing for {formatDuration(now - current.receivedAt)}
+            {busy && " - end the current call to answer"}
+          </div>
+        </div>
+        <div>
+          <button
+            onClick={() => onAccept(current)}
+            disabled={acceptDisabled}
+            style={{
+              padding: "10px 20px",
+              fontSize: "16px",
+              backgroundColor: acceptDisabled ? "#ccc" : "#4CAF50",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: acceptDisabled ? "not-allowed" : "pointer",
+            }}
+          >
+            Accept
+          </button>
+          <button
+            onClick={() => declineIncomingCall(current.id)}
+            style={{
+              padding: "10px 20px",
+              fontSize: "16px",
+              marginLeft: "10px",
+              backgroundColor: "#f44336",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            Decline
+          </button>
+        </div>
+      </div>
+
+      {waiting.length > 0 && (
+        <div style={{ marginTop: "10px", fontSize: "12px", color: "#666" }}>
+          Waiting ({waiting.length}):{" "}
+          {waiting
+            .map((call) => `${devices.find((d) => d.id === call.deviceId)?.name || call.deviceId} (${call.kind}, ${formatDuration(now - call.receivedAt)})`)
+            .join(", ")}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncomingCalls;
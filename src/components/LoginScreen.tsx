@@ -0,0 +1,82 @@
+import { useState, type FormEvent } from "react";
+import { login } from "../auth";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+interface LoginScreenProps {
+  message?: string | null;
+}
+
+const LoginScreen = ({ message }: LoginScreenProps) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await login(username, password);
+    } catch (err) {
+      log.error("Login failed:", err);
+      setError(`Login failed: ${(err as Error).message}`);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{ padding: "20px", fontFamily: "Arial, sans-serif" }}>
+      <h1>Admin Panel - Dashcam Monitor</h1>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{ maxWidth: "320px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}
+      >
+        <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Operator Login</h3>
+
+        {message && <div style={{ color: "#f44336", fontSize: "13px", marginBottom: "10px" }}>{message}</div>}
+
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          required
+          style={{ width: "100%", padding: "8px", boxSizing: "border-box", marginBottom: "8px" }}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="current-password"
+          required
+          style={{ width: "100%", padding: "8px", boxSizing: "border-box", marginBottom: "10px" }}
+        />
+
+        {error && <div style={{ color: "#f44336", fontSize: "13px", marginBottom: "10px" }}>{error}</div>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          style={{
+            padding: "10px 20px",
+            backgroundColor: isSubmitting ? "#ccc" : "#2196F3",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+            cursor: isSubmitting ? "not-allowed" : "pointer",
+          }}
+        >
+          {isSubmitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,165 @@
+import { useEffect, useRef } from "react";
+import { supportsOutputSelection, type MediaPreferences } from "../media/devices";
+import type { MediaDeviceLists } from "../media/useMediaDevices";
+import { getVideoQualityProfile, VIDEO_QUALITY_PROFILES, type VideoQualityId } from "../webrtc/videoQuality";
+
+interface MediaControlsProps {
+  preferences: MediaPreferences;
+  devices: MediaDeviceLists;
+  onChange: (preferences: MediaPreferences) => void;
+  isCallActive: boolean;
+  isTalking: boolean;
+  onTalkingChange: (talking: boolean) => void;
+  localStream: MediaStream | null;
+}
+
+const selectStyle = { width: "100%", padding: "4px", marginTop: "2px" };
+
+const DevicePicker = ({
+  label,
+  devices,
+  value,
+  onChange,
+  disabled = false,
+}: {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  onChange: (deviceId: string | null) => void;
+  disabled?: boolean;
+}) => (
+  <label style={{ display: "block", fontSize: "12px", marginBottom: "8px" }}>
+    {label}
+    <select value={value ?? ""} onChange={(e) => onChange(e.target.value || null)} disabled={disabled} style={selectStyle}>
+      <option value="">System default</option>
+      {devices.map((device, index) => (
+        <option key={device.deviceId || index} value={device.deviceId}>
+          {device.label || `${label} ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const MediaControls = ({
+  preferences,
+  devices,
+  onChange,
+  isCallActive,
+  isTalking,
+  onTalkingChange,
+  localStream,
+}: MediaControlsProps) => {
+  const previewRef = useRef<HTMLVideoElement | null>(null);
+  const hasLocalVideo = !!localStream && localStream.getVideoTracks().length > 0;
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = hasLocalVideo ? localStream : null;
+    }
+  }, [localStream, hasLocalVideo]);
+
+  const update = (changes: Partial<MediaPreferences>) => onChange({ ...preferences, ...changes });
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>My Audio & Video</h3>
+
+      <div style={{ display: "flex", gap: "15px", flexWrap: "wrap" }}>
+        <div style={{ flex: "1 1 220px" }}>
+          <DevicePicker
+            label="Microphone"
+            devices={devices.microphones}
+            value={preferences.microphoneId}
+            onChange={(microphoneId) => update({ microphoneId })}
+          />
+          <DevicePicker
+            label="Camera"
+            devices={devices.cameras}
+            value={preferences.cameraId}
+            onChange={(cameraId) => update({ cameraId })}
+          />
+          <DevicePicker
+            label={supportsOutputSelection() ? "Speaker" : "Speaker (not supported by this browser)"}
+            devices={devices.speakers}
+            value={preferences.speakerId}
+            onChange={(speakerId) => update({ speakerId })}
+            disabled={!supportsOutputSelection()}
+          />
+          <label style={{ display: "block", fontSize: "12px", marginBottom: "8px" }}>
+            Dashcam video quality
+            <select
+              value={getVideoQualityProfile(preferences.videoQuality).id}
+              onChange={(e) => update({ videoQuality: e.target.value as VideoQualityId })}
+              style={selectStyle}
+            >
+              {Object.values(VIDEO_QUALITY_PROFILES).map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label} ({profile.height}p, up to {profile.maxBitrateKbps} kbps)
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div style={{ flex: "1 1 220px", fontSize: "12px" }}>
+          <label style={{ display: "block", marginBottom: "6px" }}>
+            <input
+              type="checkbox"
+              checked={preferences.sendCamera}
+              disabled={isCallActive}
+              onChange={(e) => update({ sendCamera: e.target.checked })}
+            />{" "}
+            Send my camera on video calls
+          </label>
+          <label style={{ display: "block", marginBottom: "10px" }}>
+            <input
+              type="checkbox"
+              checked={preferences.pushToTalk}
+              onChange={(e) => update({ pushToTalk: e.target.checked })}
+            />{" "}
+            Push-to-talk (hold Space or the button)
+          </label>
+
+          {preferences.pushToTalk && (
+            <button
+              onPointerDown={() => onTalkingChange(true)}
+              onPointerUp={() => onTalkingChange(false)}
+              onPointerLeave={() => onTalkingChange(false)}
+              disabled={!isCallActive}
+              style={{
+                padding: "10px 20px",
+                backgroundColor: !isCallActive ? "#ccc" : isTalking ? "#f44336" : "#607d8b",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+                cursor: !isCallActive ? "not-allowed" : "pointer",
+                userSelect: "none",
+              }}
+            >
+              {isTalking ? "Talking..." : "Hold to talk"}
+            </button>
+          )}
+
+          {isCallActive && localStream && localStream.getAudioTracks().length > 0 && (
+            <div style={{ marginTop: "8px", color: "#666" }}>
+              Microphone: {!preferences.pushToTalk || isTalking ? "live" : "muted"}
+            </div>
+          )}
+        </div>
+
+        {hasLocalVideo && (
+          <video
+            ref={previewRef}
+            autoPlay
+            playsInline
+            muted
+            style={{ width: "160px", height: "90px", borderRadius: "6px", backgroundColor: "#000", transform: "scaleX(-1)" }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MediaControls;
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { deleteRecording, listRecordings, recordingFileName, subscribeRecordings, type Recording } from "../recordings";
+import { downloadBlob, formatBytes, formatDuration } from "../utils/format";
+import TelemetryMap from "./TelemetryMap";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+const rowStyle = { padding: "6px 8px", borderBottom: "1px solid #eee", textAlign: "left" as const };
+
+const RecordingsPanel = () => {
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [selected, setSelected] = useState<Recording | null>(null);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      listRecordings()
+        .then(setRecordings)
+        .catch((err) => {
+          log.error("Failed to load recordings:", err);
+          setError(`Failed to load recordings: ${err.message}`);
+        });
+    };
+
+    refresh();
+    return subscribeRecordings(refresh);
+  }, []);
+
+  useEffect(() => {
+    if (!selected) {
+      setPlaybackUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selected.blob);
+    setPlaybackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected]);
+
+  const downloadTelemetry = (recording: Recording) => {
+    const blob = new Blob([JSON.stringify(recording.telemetry ?? [], null, 2)], { type: "application/json" });
+    downloadBlob(blob, recordingFileName(recording).replace(/\.webm$/, "-telemetry.json"));
+  };
+
+  const handleDelete = async (recording: Recording) => {
+    if (!window.confirm(`Delete recording of ${recording.deviceId} from ${new Date(recording.startedAt).toLocaleString()}?`)) {
+      return;
+    }
+    if (selected?.id === recording.id) setSelected(null);
+    try {
+      await deleteRecording(recording.id);
+    } catch (err) {
+      log.error("Failed to delete recording:", err);
+      setError(`Failed to delete recording: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div style={{ padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Recordings ({recordings.length})</h3>
+
+      {error && <div style={{ color: "#f44336", fontSize: "13px", marginBottom: "10px" }}>{error}</div>}
+
+      {selected && playbackUrl && (
+        <div style={{ marginBottom: "15px" }}>
+          {selected.kind === "video" ? (
+            <video
+              src={playbackUrl}
+              controls
+              autoPlay
+              style={{ width: "100%", maxWidth: "640px", borderRadius: "8px", backgroundColor: "#000" }}
+            />
+          ) : (
+            <audio src={playbackUrl} controls autoPlay style={{ width: "100%" }} />
+          )}
+        </div>
+      )}
+
+      {selected?.telemetry && selected.telemetry.length > 0 && (
+        <TelemetryMap trail={selected.telemetry} title="Recorded Route" />
+      )}
+
+      {recordings.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#666" }}>No recordings yet</div>
+      ) : (
+        <table style={{ borderCollapse: "collapse", fontSize: "13px", width: "100%" }}>
+          <thead>
+            <tr>
+              <th style={rowStyle}>Device</th>
+              <th style={rowStyle}>Type</th>
+              <th style={rowStyle}>Started</th>
+              <th style={rowStyle}>Ended</th>
+              <th style={rowStyle}>Duration</th>
+              <th style={rowStyle}>Size</th>
+              <th style={rowStyle}>GPS</th>
+              <th style={rowStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {recordings.map((recording) => (
+              <tr key={recording.id} style={{ backgroundColor: selected?.id === recording.id ? "#e3f2fd" : undefined }}>
+                <td style={rowStyle}>{recording.deviceId}</td>
+                <td style={rowStyle}>{recording.kind}</td>
+                <td style={rowStyle}>{new Date(recording.startedAt).toLocaleString()}</td>
+                <td style={rowStyle}>{new Date(recording.endedAt).toLocaleTimeString()}</td>
+                <td style={rowStyle}>{formatDuration(recording.durationMs)}</td>
+                <td style={rowStyle}>{formatBytes(recording.size)}</td>
+                <td style={rowStyle}>{recording.telemetry?.length ? `${recording.telemetry.length} pts` : "-"}</td>
+                <td style={rowStyle}>
+                  <button onClick={() => setSelected(recording)}>Play</button>
+                  <button
+                    onClick={() => downloadBlob(recording.blob, recordingFileName(recording))}
+                    style={{ marginLeft: "4px" }}
+                  >
+                    Download
+                  </button>
+                  {recording.telemetry && recording.telemetry.length > 0 && (
+                    <button onClick={() => downloadTelemetry(recording)} style={{ marginLeft: "4px" }}>
+                      GPS
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(recording)} style={{ marginLeft: "4px", color: "#f44336" }}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default RecordingsPanel;
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { getConfig, getConfigSource } from "../config";
+import { socket } from "../sockets";
+import { getIceServers, getTurnCredentialsExpiry } from "../webrtc/config";
+
+const maskSecret = (value?: string) => (value ? `${value.slice(0, 2)}${"*".repeat(6)}` : "-");
+
+const formatUrls = (urls: string | string[]) => (Array.isArray(urls) ? urls.join(", ") : urls);
+
+const rowStyle = { padding: "4px 8px", borderBottom: "1px solid #eee", textAlign: "left" as const };
+
+// Read-only view of the configuration this build is running with.
+const SettingsPanel = () => {
+  const config = getConfig();
+  const [resolvedServers, setResolvedServers] = useState<RTCIceServer[] | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const turnExpiry = getTurnCredentialsExpiry();
+
+  const resolveIceServers = async () => {
+    setIsResolving(true);
+    setResolvedServers(await getIceServers());
+    setIsResolving(false);
+  };
+
+  const iceServers = resolvedServers ?? config.iceServers;
+
+  return (
+    <div style={{ padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Settings</h3>
+
+      <table style={{ borderCollapse: "collapse", fontSize: "13px", marginBottom: "15px" }}>
+        <tbody>
+          <tr>
+            <th style={rowStyle}>Config source</th>
+            <td style={rowStyle}>{getConfigSource()}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>Signaling URL</th>
+            <td style={rowStyle}>{config.socketUrl}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>Socket path</th>
+            <td style={rowStyle}>{config.socketPath}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>Transports</th>
+            <td style={rowStyle}>{config.socketTransports.join(", ")}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>Extra headers</th>
+            <td style={rowStyle}>{Object.keys(config.socketHeaders).join(", ") || "-"}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>Socket</th>
+            <td style={rowStyle}>{socket.connected ? `Connected (${socket.id})` : "Not connected"}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>TURN credentials endpoint</th>
+            <td style={rowStyle}>{config.turnCredentialsUrl || "Not configured"}</td>
+          </tr>
+          <tr>
+            <th style={rowStyle}>Auth endpoint</th>
+            <td style={rowStyle}>{config.authUrl || config.socketUrl}</td>
+          </tr>
+          {turnExpiry && (
+            <tr>
+              <th style={rowStyle}>TURN credentials expire</th>
+              <td style={rowStyle}>{new Date(turnExpiry).toLocaleTimeString()}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <h4 style={{ margin: "0 0 6px 0", fontSize: "14px" }}>
+        ICE servers {resolvedServers ? "(resolved)" : "(static)"}
+      </h4>
+      <table style={{ borderCollapse: "collapse", fontSize: "13px", marginBottom: "10px" }}>
+        <thead>
+          <tr>
+            <th style={rowStyle}>URLs</th>
+            <th style={rowStyle}>Username</th>
+            <th style={rowStyle}>Credential</th>
+          </tr>
+        </thead>
+        <tbody>
+          {iceServers.map((server, index) => (
+            <tr key={index}>
+              <td style={rowStyle}>{formatUrls(server.urls)}</td>
+              <td style={rowStyle}>{server.username || "-"}</td>
+              <td style={rowStyle}>{maskSecret(server.credential)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button onClick={resolveIceServers} disabled={isResolving} style={{ padding: "6px 14px" }}>
+        {isResolving ? "Resolving..." : "Resolve ICE servers"}
+      </button>
+    </div>
+  );
+};
+
+export default SettingsPanel;
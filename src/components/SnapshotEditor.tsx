@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { canvasToBlob, renderSnapshot, type Annotation, type AnnotationTool, type Point } from "../snapshots/annotate";
+import { saveSnapshot, snapshotFileName, type SnapshotFormat } from "../snapshots";
+import { downloadBlob } from "../utils/format";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+export interface CapturedFrame {
+  canvas: HTMLCanvasElement;
+  deviceId: string;
+  deviceLabel: string;
+  capturedAt: number;
+}
+
+interface SnapshotEditorProps {
+  frame: CapturedFrame;
+  onClose: () => void;
+  onResult: (message: string) => void;
+}
+
+const TOOLS: { tool: AnnotationTool; label: string }[] = [
+  { tool: "arrow", label: "Arrow" },
+  { tool: "box", label: "Box" },
+  { tool: "text", label: "Text" },
+];
+
+const COLORS = ["#f44336", "#ffeb3b", "#4CAF50", "#2196F3", "#ffffff"];
+
+const buttonStyle = { padding: "6px 12px", marginRight: "6px", fontSize: "13px" };
+
+const SnapshotEditor = ({ frame, onClose, onResult }: SnapshotEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>("arrow");
+  const [color, setColor] = useState(COLORS[0]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [saving, setSaving] = useState(false);
+  const watermark = `${frame.deviceLabel} - ${new Date(frame.capturedAt).toLocaleString()}`;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    renderSnapshot(canvasRef.current, frame.canvas, draft ? [...annotations, draft] : annotations, watermark);
+  }, [frame, annotations, draft, watermark]);
+
+  // Pointer position in frame pixels; the canvas is displayed scaled down.
+  const toFramePoint = (event: PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * frame.canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * frame.canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const point = toFramePoint(event);
+    if (tool === "text") {
+      const text = window.prompt("Annotation text");
+      if (text?.trim()) setAnnotations((prev) => [...prev, { type: "text", at: point, text: text.trim(), color }]);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({ type: tool, from: point, to: point, color });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!draft || draft.type === "text") return;
+    setDraft({ ...draft, to: toFramePoint(event) });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft || draft.type === "text") return;
+    const { from, to } = draft;
+    // A click without a drag would leave an invisible annotation.
+    if (Math.hypot(to.x - from.x, to.y - from.y) > 5) setAnnotations((prev) => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const encode = (format: SnapshotFormat) => {
+    if (!canvasRef.current) return Promise.reject(new Error("Snapshot is not ready"));
+    return canvasToBlob(canvasRef.current, format);
+  };
+
+  const download = (format: SnapshotFormat) => {
+    encode(format)
+      .then((blob) => downloadBlob(blob, snapshotFileName(frame.deviceId, frame.capturedAt, format)))
+      .catch((err) => onResult(`Snapshot download failed: ${err.message}`));
+  };
+
+  const saveToGallery = async () => {
+    setSaving(true);
+    try {
+      const blob = await encode("png");
+      await saveSnapshot({
+        id: crypto.randomUUID(),
+        deviceId: frame.deviceId,
+        capturedAt: frame.capturedAt,
+        width: frame.canvas.width,
+        height: frame.canvas.height,
+        mimeType: blob.type,
+        blob,
+      });
+      onResult("Snapshot saved to gallery");
+    } catch (err) {
+      log.error("Failed to save snapshot:", err);
+      onResult(`Snapshot could not be saved: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+        Snapshot ({frame.canvas.width}x{frame.canvas.height})
+      </h3>
+
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        {TOOLS.map(({ tool: t, label }) => (
+          <button key={t} onClick={() => setTool(t)} style={{ ...buttonStyle, fontWeight: tool === t ? "bold" : "normal" }}>
+            {label}
+          </button>
+        ))}
+        {COLORS.map((c) => (
+          <button
+            key={c}
+            onClick={() => setColor(c)}
+            aria-label={`Colour ${c}`}
+            style={{
+              width: "22px",
+              height: "22px",
+              marginRight: "4px",
+              verticalAlign: "middle",
+              backgroundColor: c,
+              border: color === c ? "3px solid #333" : "1px solid #999",
+              borderRadius: "50%",
+              cursor: "pointer",
+            }}
+          />
+        ))}
+        <button
+          onClick={() => setAnnotations((prev) => prev.slice(0, -1))}
+          disabled={annotations.length === 0}
+          style={{ ...buttonStyle, marginLeft: "10px" }}
+        >
+          Undo
+        </button>
+        <button onClick={() => setAnnotations([])} disabled={annotations.length === 0} style={buttonStyle}>
+          Clear
+        </button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        style={{ width: "100%", maxWidth: "640px", borderRadius: "8px", cursor: "crosshair", touchAction: "none" }}
+      />
+
+      <div style={{ marginTop: "10px" }}>
+        <button
+          onClick={saveToGallery}
+          disabled={saving}
+          style={{ ...buttonStyle, backgroundColor: "#4CAF50", color: "white", border: "none", borderRadius: "4px" }}
+        >
+          {saving ? "Saving..." : "Save to gallery"}
+        </button>
+        <button onClick={() => download("png")} style={buttonStyle}>
+          Download PNG
+        </button>
+        <button onClick={() => download("jpeg")} style={buttonStyle}>
+          Download JPEG
+        </button>
+        <button onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotEditor;
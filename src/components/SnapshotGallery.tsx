@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { deleteSnapshot, listSnapshots, snapshotFileName, subscribeSnapshots, type Snapshot } from "../snapshots";
+import { downloadBlob } from "../utils/format";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+const SnapshotGallery = () => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      listSnapshots()
+        .then(setSnapshots)
+        .catch((err) => {
+          log.error("Failed to load snapshots:", err);
+          setError(`Failed to load snapshots: ${err.message}`);
+        });
+    };
+
+    refresh();
+    return subscribeSnapshots(refresh);
+  }, []);
+
+  useEffect(() => {
+    const next = Object.fromEntries(snapshots.map((snapshot) => [snapshot.id, URL.createObjectURL(snapshot.blob)]));
+    setUrls(next);
+    return () => Object.values(next).forEach((url) => URL.revokeObjectURL(url));
+  }, [snapshots]);
+
+  const handleDelete = async (snapshot: Snapshot) => {
+    if (!window.confirm(`Delete snapshot of ${snapshot.deviceId} from ${new Date(snapshot.capturedAt).toLocaleString()}?`)) {
+      return;
+    }
+    try {
+      await deleteSnapshot(snapshot.id);
+    } catch (err) {
+      log.error("Failed to delete snapshot:", err);
+      setError(`Failed to delete snapshot: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Snapshots ({snapshots.length})</h3>
+
+      {error && <div style={{ color: "#f44336", fontSize: "13px", marginBottom: "10px" }}>{error}</div>}
+
+      {snapshots.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#666" }}>No snapshots yet</div>
+      ) : (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "10px" }}>
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} style={{ width: "200px", fontSize: "12px" }}>
+              {urls[snapshot.id] && (
+                <a href={urls[snapshot.id]} target="_blank" rel="noreferrer">
+                  <img
+                    src={urls[snapshot.id]}
+                    alt={`${snapshot.deviceId} at ${new Date(snapshot.capturedAt).toLocaleString()}`}
+                    style={{ width: "100%", borderRadius: "4px", backgroundColor: "#000" }}
+                  />
+                </a>
+              )}
+              <div>{snapshot.deviceId}</div>
+              <div style={{ color: "#666" }}>{new Date(snapshot.capturedAt).toLocaleString()}</div>
+              <button
+                onClick={() => downloadBlob(snapshot.blob, snapshotFileName(snapshot.deviceId, snapshot.capturedAt, "png"))}
+              >
+                Download
+              </button>
+              <button onClick={() => handleDelete(snapshot)} style={{ marginLeft: "4px", color: "#f44336" }}>
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotGallery;
@@ -0,0 +1,29 @@
+interface SparklineProps {
+  values: (number | null)[];
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+const Sparkline = ({ values, width = 120, height = 30, color = "#2196F3" }: SparklineProps) => {
+  const points = values.filter((value): value is number => value !== null);
+  if (points.length < 2) {
+    return <svg width={width} height={height} style={{ backgroundColor: "#fff" }} />;
+  }
+
+  const max = Math.max(...points, 1);
+  const min = Math.min(...points, 0);
+  const range = max - min || 1;
+  const step = width / (points.length - 1);
+  const path = points
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - ((value - min) / range) * (height - 2) - 1).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} style={{ backgroundColor: "#fff" }}>
+      <polyline points={path} fill="none" stroke={color} strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+export default Sparkline;
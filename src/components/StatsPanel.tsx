@@ -0,0 +1,81 @@
+import type { StatsSample } from "../stats/StatsCollector";
+import { statsToCsv, statsToJson, type StatsExportMeta } from "../stats/export";
+import { downloadBlob } from "../utils/format";
+import Sparkline from "./Sparkline";
+
+interface StatsPanelProps {
+  samples: StatsSample[];
+  meta: StatsExportMeta;
+}
+
+// Sparklines show the last two minutes; exports contain the whole timeline.
+const SPARKLINE_WINDOW = 120;
+
+const formatValue = (value: number | null, unit: string) => (value === null ? "-" : `${value} ${unit}`);
+
+const StatsPanel = ({ samples, meta }: StatsPanelProps) => {
+  const latest = samples[samples.length - 1];
+  const recent = samples.slice(-SPARKLINE_WINDOW);
+
+  const exportStats = (format: "json" | "csv") => {
+    const fileName = `stats-${meta.deviceId}-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`;
+    const blob =
+      format === "json"
+        ? new Blob([statsToJson(samples, meta)], { type: "application/json" })
+        : new Blob([statsToCsv(samples)], { type: "text/csv" });
+    downloadBlob(blob, fileName);
+  };
+
+  const metrics: { label: string; value: string; series: (number | null)[]; color: string }[] = latest
+    ? [
+        { label: "Bitrate", value: formatValue(latest.bitrateKbps, "kbps"), series: recent.map((s) => s.bitrateKbps), color: "#2196F3" },
+        { label: "Frame rate", value: formatValue(latest.framesPerSecond, "fps"), series: recent.map((s) => s.framesPerSecond), color: "#4CAF50" },
+        { label: "Packets lost", value: String(latest.packetsLost), series: recent.map((s) => s.packetsLost), color: "#f44336" },
+        { label: "Jitter", value: formatValue(latest.jitterMs, "ms"), series: recent.map((s) => s.jitterMs), color: "#FF9800" },
+        { label: "RTT", value: formatValue(latest.rttMs, "ms"), series: recent.map((s) => s.rttMs), color: "#9c27b0" },
+      ]
+    : [];
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "10px" }}>
+        <h3 style={{ margin: 0, fontSize: "16px" }}>Connection Quality</h3>
+        <div>
+          <button onClick={() => exportStats("json")} disabled={samples.length === 0}>
+            Export JSON
+          </button>
+          <button onClick={() => exportStats("csv")} disabled={samples.length === 0} style={{ marginLeft: "4px" }}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {!latest ? (
+        <div style={{ fontSize: "12px", color: "#666" }}>Collecting stats...</div>
+      ) : (
+        <>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "15px" }}>
+            {metrics.map((metric) => (
+              <div key={metric.label} style={{ fontSize: "12px" }}>
+                <div>
+                  <strong>{metric.label}:</strong> {metric.value}
+                </div>
+                <Sparkline values={metric.series} color={metric.color} />
+              </div>
+            ))}
+          </div>
+
+          <div style={{ fontSize: "12px", color: "#666", marginTop: "8px" }}>
+            ICE pair: {latest.localCandidateType ?? "-"} → {latest.remoteCandidateType ?? "-"}
+            {latest.protocol && ` (${latest.protocol})`}
+            {" · "}Video codec: {latest.videoCodec ?? "-"}
+            {" · "}Audio codec: {latest.audioCodec ?? "-"}
+            {latest.frameWidth && latest.frameHeight && ` · ${latest.frameWidth}x${latest.frameHeight}`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,163 @@
+import { getConfig } from "../config";
+import type { TelemetryPoint } from "../telemetry/types";
+
+interface TelemetryMapProps {
+  trail: TelemetryPoint[];
+  title?: string;
+  width?: number;
+  height?: number;
+}
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 19;
+const EARTH_CIRCUMFERENCE_METERS = 40_075_016.686;
+// Never zoom in further than this, so a parked vehicle doesn't fill the panel with GPS noise.
+const MIN_SPAN_METERS = 200;
+const PADDING = 20;
+
+const compassPoint = (heading: number) =>
+  ["N", "NE", "E", "SE", "S", "SW", "W", "NW"][Math.round((((heading % 360) + 360) % 360) / 45) % 8];
+
+// Web Mercator position in pixels of the zoom-0 world, the same projection the map tiles use.
+const worldPixel = (p: TelemetryPoint) => {
+  const sinLat = Math.sin((p.lat * Math.PI) / 180);
+  return {
+    x: ((p.lon + 180) / 360) * TILE_SIZE,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * TILE_SIZE,
+  };
+};
+
+const tileUrl = (template: string, zoom: number, x: number, y: number) =>
+  template.replace("{z}", String(zoom)).replace("{x}", String(x)).replace("{y}", String(y));
+
+// Picks the deepest tile zoom that fits the whole trail, then lays the trail and the tiles under it
+// out in panel pixels around the trail's centre.
+const project = (trail: TelemetryPoint[], width: number, height: number) => {
+  const world = trail.map(worldPixel);
+  const xs = world.map((w) => w.x);
+  const ys = world.map((w) => w.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const centerLat = (Math.min(...trail.map((p) => p.lat)) + Math.max(...trail.map((p) => p.lat))) / 2;
+  const innerWidth = width - PADDING * 2;
+  const innerHeight = height - PADDING * 2;
+  const metersPerPixelAt = (zoom: number) =>
+    (EARTH_CIRCUMFERENCE_METERS * Math.cos((centerLat * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+
+  let zoom = MAX_ZOOM;
+  while (
+    zoom > 0 &&
+    (spanX * 2 ** zoom > innerWidth ||
+      spanY * 2 ** zoom > innerHeight ||
+      metersPerPixelAt(zoom) * Math.min(innerWidth, innerHeight) < MIN_SPAN_METERS)
+  ) {
+    zoom -= 1;
+  }
+
+  const scale = 2 ** zoom;
+  const originX = (minX + spanX / 2) * scale - width / 2;
+  const originY = (minY + spanY / 2) * scale - height / 2;
+  const tileCount = 2 ** zoom;
+  const tiles: { key: string; x: number; y: number; tileX: number; tileY: number }[] = [];
+  for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + width) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      tiles.push({
+        key: `${tx}/${ty}`,
+        x: tx * TILE_SIZE - originX,
+        y: ty * TILE_SIZE - originY,
+        tileX: ((tx % tileCount) + tileCount) % tileCount,
+        tileY: ty,
+      });
+    }
+  }
+
+  return {
+    points: world.map((w) => ({ x: w.x * scale - originX, y: w.y * scale - originY })),
+    metersPerPixel: metersPerPixelAt(zoom),
+    zoom,
+    tiles,
+  };
+};
+
+const TelemetryMap = ({ trail, title = "Vehicle Location", width = 320, height = 240 }: TelemetryMapProps) => {
+  const latest = trail[trail.length - 1];
+  const projection = latest ? project(trail, width, height) : null;
+  const current = projection?.points[projection.points.length - 1];
+  const { mapTileUrl, mapAttribution } = getConfig();
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>{title}</h3>
+
+      {!latest || !projection || !current ? (
+        <div style={{ fontSize: "12px", color: "#666" }}>Waiting for GPS telemetry...</div>
+      ) : (
+        <div style={{ display: "flex", gap: "15px", alignItems: "flex-start", flexWrap: "wrap" }}>
+          <svg width={width} height={height} style={{ backgroundColor: "#e8f0e8", borderRadius: "6px" }}>
+            {mapTileUrl &&
+              projection.tiles.map((tile) => (
+                <image
+                  key={tile.key}
+                  href={tileUrl(mapTileUrl, projection.zoom, tile.tileX, tile.tileY)}
+                  x={tile.x}
+                  y={tile.y}
+                  width={TILE_SIZE}
+                  height={TILE_SIZE}
+                />
+              ))}
+            <polyline
+              points={projection.points.map((p) => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ")}
+              fill="none"
+              stroke="#2196F3"
+              strokeWidth="2"
+              strokeDasharray="4 2"
+            />
+            {projection.points.length > 1 && <circle cx={projection.points[0].x} cy={projection.points[0].y} r="4" fill="#9e9e9e" />}
+            <g transform={`translate(${current.x} ${current.y}) rotate(${latest.heading})`}>
+              <polygon points="0,-10 7,8 0,4 -7,8" fill="#f44336" stroke="white" strokeWidth="1" />
+            </g>
+            <text x="8" y={height - 8} fontSize="10" fill="#666">
+              {Math.round(projection.metersPerPixel * 50)} m per 50 px
+            </text>
+            {mapTileUrl && (
+              <text x={width - 8} y={height - 8} fontSize="9" fill="#666" textAnchor="end">
+                {mapAttribution}
+              </text>
+            )}
+          </svg>
+
+          <div style={{ fontSize: "12px", lineHeight: 1.6 }}>
+            <div>
+              <strong>Speed:</strong> {Math.round(latest.speed)} km/h
+            </div>
+            <div>
+              <strong>Heading:</strong> {Math.round(latest.heading)}° {compassPoint(latest.heading)}
+            </div>
+            <div>
+              <strong>Position:</strong> {latest.lat.toFixed(5)}, {latest.lon.toFixed(5)}
+              {latest.accuracy !== undefined && ` (±${Math.round(latest.accuracy)} m)`}
+            </div>
+            <div>
+              <strong>Updated:</strong> {new Date(latest.timestamp).toLocaleTimeString()}
+            </div>
+            <div>
+              <strong>Trail:</strong> {trail.length} points
+            </div>
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${latest.lat}&mlon=${latest.lon}#map=17/${latest.lat}/${latest.lon}`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              Open in OpenStreetMap
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryMap;
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import { updateTranscriptionSettings } from "../transcription";
+import { listSpeechEngines } from "../transcription/engines";
+import { parseKeywords, splitByKeywords } from "../transcription/keywords";
+import { useTranscription } from "../transcription/useTranscription";
+
+interface TranscriptPanelProps {
+  isCallActive: boolean;
+}
+
+// Only the tail is shown; the full transcript is saved with the call history record.
+const MAX_VISIBLE_SEGMENTS = 50;
+
+const TranscriptPanel = ({ isCallActive }: TranscriptPanelProps) => {
+  const { settings, live } = useTranscription();
+  const [keywordInput, setKeywordInput] = useState(settings.keywords.join(", "));
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const engines = listSpeechEngines();
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [live?.segments.length, live?.interim]);
+
+  const saveKeywords = () => {
+    const keywords = parseKeywords(keywordInput);
+    setKeywordInput(keywords.join(", "));
+    updateTranscriptionSettings({ ...settings, keywords });
+  };
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", textAlign: "left" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>Live Transcript</h3>
+
+      <div style={{ display: "flex", gap: "10px", flexWrap: "wrap", alignItems: "center", fontSize: "12px", marginBottom: "10px" }}>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => updateTranscriptionSettings({ ...settings, enabled: e.target.checked })}
+          />{" "}
+          Transcribe audio calls
+        </label>
+        <select
+          value={settings.engineId}
+          onChange={(e) => updateTranscriptionSettings({ ...settings, engineId: e.target.value })}
+          disabled={isCallActive}
+          aria-label="Speech-to-text engine"
+        >
+          {engines.map((engine) => (
+            <option key={engine.id} value={engine.id} disabled={!engine.isSupported()}>
+              {engine.label}
+            </option>
+          ))}
+        </select>
+        <label style={{ flex: "1 1 200px" }}>
+          Keywords{" "}
+          <input
+            value={keywordInput}
+            onChange={(e) => setKeywordInput(e.target.value)}
+            onBlur={saveKeywords}
+            onKeyDown={(e) => e.key === "Enter" && saveKeywords()}
+            placeholder="accident, help"
+            style={{ width: "60%" }}
+          />
+        </label>
+      </div>
+
+      {live?.error && <div style={{ color: "#f44336", fontSize: "13px", marginBottom: "6px" }}>{live.error}</div>}
+
+      {live ? (
+        <div
+          ref={scrollRef}
+          aria-live="polite"
+          style={{ maxHeight: "200px", overflowY: "auto", backgroundColor: "#fff", borderRadius: "4px", padding: "8px", fontSize: "13px" }}
+        >
+          {live.segments.length === 0 && !live.interim && (
+            <div style={{ color: "#666", fontSize: "12px" }}>Listening with {live.engineLabel}...</div>
+          )}
+          {live.segments.slice(-MAX_VISIBLE_SEGMENTS).map((segment) => (
+            <div
+              key={segment.id}
+              style={{
+                padding: "2px 6px",
+                borderLeft: `3px solid ${segment.keywords.length > 0 ? "#f44336" : "transparent"}`,
+              }}
+            >
+              <span style={{ color: "#999", fontSize: "11px" }}>{new Date(segment.at).toLocaleTimeString()}</span>{" "}
+              {splitByKeywords(segment.text, settings.keywords).map((part, index) =>
+                part.keyword ? (
+                  <mark key={index} style={{ backgroundColor: "#ffeb3b", fontWeight: "bold" }}>
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                )
+              )}
+            </div>
+          ))}
+          {live.interim && <div style={{ padding: "2px 6px", color: "#999", fontStyle: "italic" }}>{live.interim}</div>}
+        </div>
+      ) : (
+        <div style={{ fontSize: "12px", color: "#666" }}>
+          {settings.enabled ? "The transcript appears here during audio calls" : "Transcription is off"}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import type { CallRouter } from "../webrtc/CallRouter";
+import type { CallSession } from "../webrtc/CallSession";
+import { getVideoQualityProfile } from "../webrtc/videoQuality";
+import { loadMediaPreferences } from "../media/devices";
+import { AudioPipeline, DEFAULT_AUDIO_PROCESSING } from "../media/AudioPipeline";
+import { useAudioLevels } from "../media/useAudioLevels";
+import { createLogger } from "../logging";
+import { AudioMeter } from "./AudioMeterPanel";
+
+const log = createLogger("media");
+
+interface VideoTileProps {
+  router: CallRouter;
+  deviceId: string;
+  label: string;
+  onRemove: (deviceId: string) => void;
+}
+
+// One wall tile owns one video CallSession; the router delivers its signaling.
+const VideoTile = ({ router, deviceId, label, onRemove }: VideoTileProps) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [status, setStatus] = useState("Requesting video...");
+  const [resolution, setResolution] = useState("");
+  const [isListening, setIsListening] = useState(false);
+  // Metering only: the tile plays the raw stream through its video element.
+  const [audioPipeline, setAudioPipeline] = useState<AudioPipeline | null>(null);
+  const audioLevels = useAudioLevels(audioPipeline);
+
+  // The tile's call outlives an immediate unmount/remount (StrictMode in dev): the cleanup only
+  // schedules the hang-up, and a remount for the same device cancels it and keeps the call,
+  // so the dashcam gets one start-call per tile.
+  const callRef = useRef<{ session: CallSession; deviceId: string; router: CallRouter } | null>(null);
+  const pendingHangupRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pipelineRef = useRef<AudioPipeline | null>(null);
+
+  useEffect(() => {
+    const closePipeline = () => {
+      pipelineRef.current?.close();
+      pipelineRef.current = null;
+      setAudioPipeline(null);
+    };
+
+    const handleTrackReceived = (event: RTCTrackEvent) => {
+      log.info(`[${deviceId}] Track received:`, event.track.kind);
+      const [remoteStream] = event.streams;
+      const video = videoRef.current;
+      if (!video) return;
+
+      if (video.srcObject !== remoteStream) {
+        video.srcObject = remoteStream;
+        video.onloadedmetadata = () => {
+          setResolution(`${video.videoWidth}x${video.videoHeight}`);
+        };
+        video.play().catch((err) => {
+          log.error(`[${deviceId}] Video autoplay failed:`, err);
+          setStatus("Video ready - Click to play");
+        });
+      }
+
+      if (event.track.kind === "audio" && !pipelineRef.current) {
+        pipelineRef.current = new AudioPipeline(DEFAULT_AUDIO_PROCESSING);
+        pipelineRef.current.attachRemote(remoteStream);
+        setAudioPipeline(pipelineRef.current);
+      }
+    };
+
+    if (pendingHangupRef.current) {
+      clearTimeout(pendingHangupRef.current);
+      pendingHangupRef.current = null;
+    }
+    let call = callRef.current;
+    if (call && (call.deviceId !== deviceId || call.router !== router)) {
+      call.session.hangup();
+      closePipeline();
+      call = null;
+    }
+    const session =
+      call?.session ??
+      router.createSession({
+        kind: "video",
+        deviceId,
+        videoQuality: getVideoQualityProfile(loadMediaPreferences().videoQuality),
+      });
+    callRef.current = { session, deviceId, router };
+
+    const unsubscribers = [
+      session.on("status", setStatus),
+      session.on("track", handleTrackReceived),
+      session.on("state", (state) => {
+        if (state === "ended" || state === "failed") closePipeline();
+      }),
+    ];
+    if (!call) session.start();
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      pendingHangupRef.current = setTimeout(() => {
+        pendingHangupRef.current = null;
+        callRef.current = null;
+        session.hangup();
+        closePipeline();
+      });
+    };
+  }, [deviceId, router]);
+
+  const toggleListening = () => {
+    if (!videoRef.current) return;
+    videoRef.current.muted = isListening;
+    setIsListening(!isListening);
+  };
+
+  const handleVideoClick = () => {
+    videoRef.current?.play().catch((err) => {
+      log.error(`[${deviceId}] Manual video play error:`, err);
+      setStatus(`Video play error: ${err.message}`);
+    });
+  };
+
+  return (
+    <div style={{ padding: "10px", backgroundColor: "#f0f0f0", borderRadius: "8px" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "6px" }}>
+        <strong style={{ fontSize: "14px" }}>{label}</strong>
+        <button
+          onClick={() => onRemove(deviceId)}
+          style={{
+            padding: "4px 10px",
+            backgroundColor: "#f44336",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+          }}
+        >
+          End
+        </button>
+      </div>
+
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onClick={handleVideoClick}
+        style={{
+          width: "100%",
+          aspectRatio: "16 / 9",
+          borderRadius: "6px",
+          backgroundColor: "#000",
+          cursor: "pointer",
+        }}
+      />
+
+      <div style={{ fontSize: "12px", color: "#666", marginTop: "5px" }}>
+        {status} {resolution && `(${resolution})`}
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: "6px", marginTop: "5px", fontSize: "12px" }}>
+        <div style={{ flex: 1 }}>
+          <AudioMeter label="Audio" reading={audioLevels.remote} />
+        </div>
+        <button onClick={toggleListening} style={{ marginLeft: "auto", fontSize: "12px" }}>
+          {isListening ? "Mute" : "Listen"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoTile;
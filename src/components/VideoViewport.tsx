@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type PointerEvent, type RefObject } from "react";
+import {
+  defaultVideoView,
+  loadVideoOrientation,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  PAN_STEP,
+  panView,
+  rotateView,
+  saveVideoOrientation,
+  videoViewTransform,
+  zoomView,
+  ZOOM_STEP,
+  type VideoView,
+} from "../media/videoView";
+import { createLogger } from "../logging";
+
+const log = createLogger("media");
+
+interface VideoViewportProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  deviceId: string;
+  onClick: () => void;
+  onResult: (message: string) => void;
+}
+
+// Pointer travel beyond this turns a press into a drag, and its click is swallowed.
+const DRAG_THRESHOLD_PX = 5;
+
+// Each wheel notch zooms by a fraction of a step, so trackpads do not jump.
+const WHEEL_ZOOM_PER_PIXEL = 0.002;
+
+const buttonStyle = { padding: "4px 10px", marginRight: "4px", fontSize: "12px" };
+
+const supportsPictureInPicture = () => "pictureInPictureEnabled" in document && document.pictureInPictureEnabled;
+
+const VideoViewport = ({ videoRef, deviceId, onClick, onResult }: VideoViewportProps) => {
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number; view: VideoView } | null>(null);
+  const draggedRef = useRef(false);
+  const [view, setView] = useState(() => defaultVideoView(loadVideoOrientation(deviceId)));
+  const [aspectRatio, setAspectRatio] = useState(16 / 9);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isPictureInPicture, setIsPictureInPicture] = useState(false);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!wrapperRef.current && document.fullscreenElement === wrapperRef.current);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const handleEnter = () => setIsPictureInPicture(true);
+    const handleLeave = () => setIsPictureInPicture(false);
+    video.addEventListener("enterpictureinpicture", handleEnter);
+    video.addEventListener("leavepictureinpicture", handleLeave);
+    return () => {
+      video.removeEventListener("enterpictureinpicture", handleEnter);
+      video.removeEventListener("leavepictureinpicture", handleLeave);
+    };
+  }, [videoRef]);
+
+  // React registers wheel listeners as passive, which would let the page scroll while zooming.
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = frame.getBoundingClientRect();
+      const focus = {
+        x: (e.clientX - rect.left) / rect.width - 0.5,
+        y: (e.clientY - rect.top) / rect.height - 0.5,
+      };
+      setView((prev) => zoomView(prev, Math.exp(-e.deltaY * WHEEL_ZOOM_PER_PIXEL), focus));
+    };
+    frame.addEventListener("wheel", handleWheel, { passive: false });
+    return () => frame.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const changeOrientation = (update: (prev: VideoView) => VideoView) => {
+    const next = update(view);
+    setView(next);
+    saveVideoOrientation(deviceId, next);
+  };
+
+  const rotate = () => changeOrientation(rotateView);
+  const flipHorizontal = () => changeOrientation((prev) => ({ ...prev, flipH: !prev.flipH }));
+  const flipVertical = () => changeOrientation((prev) => ({ ...prev, flipV: !prev.flipV }));
+  const zoomIn = () => setView((prev) => zoomView(prev, ZOOM_STEP));
+  const zoomOut = () => setView((prev) => zoomView(prev, 1 / ZOOM_STEP));
+  const resetZoom = () => setView((prev) => ({ ...prev, zoom: 1, panX: 0, panY: 0 }));
+
+  const toggleFullscreen = () => {
+    const request = document.fullscreenElement ? document.exitFullscreen() : wrapperRef.current?.requestFullscreen();
+    request?.catch((err) => {
+      log.warn("Fullscreen request failed:", err);
+      onResult(`Fullscreen failed: ${err.message}`);
+    });
+  };
+
+  // The browser's floating window shows the raw stream, without zoom or rotation.
+  const togglePictureInPicture = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const request = document.pictureInPictureElement ? document.exitPictureInPicture() : video.requestPictureInPicture();
+    request.catch((err) => {
+      log.warn("Picture-in-picture request failed:", err);
+      onResult(`Picture-in-picture failed: ${err.message}`);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const actions: Record<string, () => void> = {
+      "+": zoomIn,
+      "=": zoomIn,
+      "-": zoomOut,
+      "0": resetZoom,
+      ArrowLeft: () => setView((prev) => panView(prev, PAN_STEP, 0)),
+      ArrowRight: () => setView((prev) => panView(prev, -PAN_STEP, 0)),
+      ArrowUp: () => setView((prev) => panView(prev, 0, PAN_STEP)),
+      ArrowDown: () => setView((prev) => panView(prev, 0, -PAN_STEP)),
+      r: rotate,
+      h: flipHorizontal,
+      v: flipVertical,
+      f: toggleFullscreen,
+      p: togglePictureInPicture,
+    };
+    const action = actions[e.key];
+    if (!action || e.ctrlKey || e.metaKey || e.altKey) return;
+    e.preventDefault();
+    action();
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || view.zoom <= MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+    draggedRef.current = false;
+    setIsDragging(true);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (Math.hypot(e.clientX - drag.x, e.clientY - drag.y) > DRAG_THRESHOLD_PX) draggedRef.current = true;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setView(panView(drag.view, (e.clientX - drag.x) / rect.width, (e.clientY - drag.y) / rect.height));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setIsDragging(false);
+  };
+
+  const handleClick = () => {
+    if (draggedRef.current) {
+      draggedRef.current = false;
+      return;
+    }
+    onClick();
+  };
+
+  const zoomed = view.zoom > MIN_ZOOM;
+
+  return (
+    <div
+      ref={wrapperRef}
+      style={
+        isFullscreen
+          ? { display: "flex", flexDirection: "column", height: "100%", backgroundColor: "#000", padding: "10px", boxSizing: "border-box" }
+          : { maxWidth: "640px" }
+      }
+    >
+      <div
+        ref={frameRef}
+        tabIndex={0}
+        role="group"
+        aria-label="Dashcam video. Zoom with + and -, pan with the arrow keys, R to rotate, F for fullscreen."
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{
+          position: "relative",
+          overflow: "hidden",
+          flex: isFullscreen ? 1 : undefined,
+          borderRadius: "8px",
+          backgroundColor: "#000",
+          border: "2px solid #ddd",
+          cursor: zoomed ? (isDragging ? "grabbing" : "grab") : "pointer",
+          touchAction: "none",
+        }}
+      >
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onClick={handleClick}
+          onLoadedMetadata={(e) => {
+            const { videoWidth, videoHeight } = e.currentTarget;
+            if (videoWidth && videoHeight) setAspectRatio(videoWidth / videoHeight);
+          }}
+          style={{
+            display: "block",
+            width: "100%",
+            height: isFullscreen ? "100%" : "auto",
+            objectFit: "contain",
+            transform: videoViewTransform(view, aspectRatio),
+            transformOrigin: "center",
+            transition: isDragging ? "none" : "transform 0.1s",
+          }}
+        />
+      </div>
+
+      <div style={{ marginTop: "6px", fontSize: "12px", color: isFullscreen ? "#fff" : undefined }}>
+        <button onClick={zoomOut} disabled={view.zoom <= MIN_ZOOM} aria-label="Zoom out" title="Zoom out (-)" style={buttonStyle}>
+          -
+        </button>
+        <span aria-live="polite" style={{ display: "inline-block", minWidth: "36px", textAlign: "center" }}>
+          {view.zoom.toFixed(1)}x
+        </span>
+        <button onClick={zoomIn} disabled={view.zoom >= MAX_ZOOM} aria-label="Zoom in" title="Zoom in (+)" style={buttonStyle}>
+          +
+        </button>
+        <button onClick={resetZoom} disabled={!zoomed} title="Reset zoom (0)" style={buttonStyle}>
+          Reset
+        </button>
+        <button onClick={rotate} title="Rotate 90° (R)" style={buttonStyle}>
+          Rotate {view.rotation}°
+        </button>
+        <button onClick={flipHorizontal} aria-pressed={view.flipH} title="Flip horizontally (H)" style={buttonStyle}>
+          Flip H
+        </button>
+        <button onClick={flipVertical} aria-pressed={view.flipV} title="Flip vertically (V)" style={buttonStyle}>
+          Flip V
+        </button>
+        {supportsPictureInPicture() && (
+          <button onClick={togglePictureInPicture} aria-pressed={isPictureInPicture} title="Picture-in-picture (P)" style={buttonStyle}>
+            {isPictureInPicture ? "Exit picture-in-picture" : "Picture-in-picture"}
+          </button>
+        )}
+        <button onClick={toggleFullscreen} aria-pressed={isFullscreen} title="Fullscreen (F)" style={buttonStyle}>
+          {isFullscreen ? "Exit fullscreen" : "Fullscreen"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoViewport;
@@ -0,0 +1,43 @@
+import type { Device } from "../devices/types";
+import type { CallRouter } from "../webrtc/CallRouter";
+import VideoTile from "./VideoTile";
+
+interface VideoWallProps {
+  router: CallRouter;
+  deviceIds: string[];
+  devices: Device[];
+  onRemove: (deviceId: string) => void;
+}
+
+// One tile, and so one peer connection, per device. Signaling is routed to the tiles
+// by the CallRouter using the `from` socket id of each message.
+const VideoWall = ({ router, deviceIds, devices, onRemove }: VideoWallProps) => {
+  if (deviceIds.length === 0) {
+    return (
+      <div style={{ padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px", color: "#666" }}>
+        Select devices from the fleet list to add them to the wall
+      </div>
+    );
+  }
+
+  const columns = Math.ceil(Math.sqrt(deviceIds.length));
+
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: `repeat(${columns}, 1fr)`, gap: "10px" }}>
+      {deviceIds.map((deviceId) => {
+        const device = devices.find((d) => d.id === deviceId);
+        return (
+          <VideoTile
+            key={deviceId}
+            deviceId={deviceId}
+            label={device?.name || deviceId}
+            router={router}
+            onRemove={onRemove}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export default VideoWall;
@@ -0,0 +1,93 @@
+import axios from "axios";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+export interface AppConfig {
+  socketUrl: string;
+  socketPath: string;
+  socketTransports: string[];
+  socketHeaders: Record<string, string>;
+  iceServers: RTCIceServer[];
+  turnCredentialsUrl: string | null;
+  // Base URL of the login/refresh endpoints; the signaling server when null.
+  authUrl: string | null;
+  // Slippy-map tile template ({z}/{x}/{y}) drawn under the telemetry trail; no basemap when null.
+  mapTileUrl: string | null;
+  mapAttribution: string;
+}
+
+export type ConfigSource = "defaults" | "env" | "runtime";
+
+// Deployments can drop a config.json next to index.html to override the build-time values.
+const RUNTIME_CONFIG_URL = "/config.json";
+
+const DEFAULT_CONFIG: AppConfig = {
+  socketUrl: window.location.origin,
+  socketPath: "/socket.io",
+  socketTransports: ["websocket", "polling"],
+  socketHeaders: {},
+  iceServers: [
+    { urls: "stun:stun.l.google.com:19302" },
+    { urls: "stun:stun1.l.google.com:19302" },
+  ],
+  turnCredentialsUrl: null,
+  authUrl: null,
+  mapTileUrl: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  mapAttribution: "© OpenStreetMap contributors",
+};
+
+const parseJson = <T>(value: string | undefined, name: string): T | undefined => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch (err) {
+    log.error(`Invalid JSON in ${name}:`, err);
+    return undefined;
+  }
+};
+
+const readEnvConfig = (): Partial<AppConfig> => {
+  const env = import.meta.env;
+  const config: Partial<AppConfig> = {
+    socketUrl: env.VITE_SOCKET_URL,
+    socketPath: env.VITE_SOCKET_PATH,
+    socketTransports: env.VITE_SOCKET_TRANSPORTS?.split(",").map((t) => t.trim()).filter(Boolean),
+    socketHeaders: parseJson<Record<string, string>>(env.VITE_SOCKET_HEADERS, "VITE_SOCKET_HEADERS"),
+    iceServers: parseJson<RTCIceServer[]>(env.VITE_ICE_SERVERS, "VITE_ICE_SERVERS"),
+    turnCredentialsUrl: env.VITE_TURN_CREDENTIALS_URL,
+    authUrl: env.VITE_AUTH_URL,
+    mapTileUrl: env.VITE_MAP_TILE_URL,
+    mapAttribution: env.VITE_MAP_ATTRIBUTION,
+  };
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+};
+
+let config: AppConfig = { ...DEFAULT_CONFIG };
+let source: ConfigSource = "defaults";
+
+// Must resolve before the socket module is imported; main.tsx waits for it before rendering.
+export const loadConfig = async () => {
+  const envConfig = readEnvConfig();
+  config = { ...DEFAULT_CONFIG, ...envConfig };
+  source = Object.keys(envConfig).length > 0 ? "env" : "defaults";
+
+  try {
+    const { data } = await axios.get<Partial<AppConfig>>(RUNTIME_CONFIG_URL, {
+      headers: { "Cache-Control": "no-cache" },
+    });
+    if (data && typeof data === "object") {
+      config = { ...config, ...data };
+      source = "runtime";
+      log.info("Runtime config loaded from", RUNTIME_CONFIG_URL);
+    }
+  } catch {
+    log.info("No runtime config found, using build-time configuration");
+  }
+
+  return config;
+};
+
+export const getConfig = () => config;
+
+export const getConfigSource = () => source;
@@ -0,0 +1,107 @@
+import type { AckMessage, CommandMessage, ControlCommand, ControlMessage } from "./protocol";
+import { createLogger } from "../logging";
+
+const log = createLogger("control");
+
+const ACK_TIMEOUT_MS = 5000;
+
+interface PendingCommand {
+  resolve: (ack: AckMessage) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Request/ack wrapper around the dashcam control data channel.
+export class ControlChannel {
+  private channel: RTCDataChannel;
+  private pending = new Map<string, PendingCommand>();
+  private openListeners = new Set<(open: boolean) => void>();
+
+  constructor(channel: RTCDataChannel) {
+    this.channel = channel;
+    channel.onopen = () => {
+      log.info("Control channel open");
+      this.openListeners.forEach((listener) => listener(true));
+    };
+    channel.onclose = () => {
+      log.info("Control channel closed");
+      this.rejectAll(new Error("Control channel closed"));
+      this.openListeners.forEach((listener) => listener(false));
+    };
+    channel.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  get isOpen() {
+    return this.channel.readyState === "open";
+  }
+
+  onOpenChange(listener: (open: boolean) => void) {
+    this.openListeners.add(listener);
+    return () => {
+      this.openListeners.delete(listener);
+    };
+  }
+
+  send(command: ControlCommand) {
+    if (!this.isOpen) {
+      return Promise.reject(new Error("Control channel is not open"));
+    }
+
+    const message: CommandMessage = { kind: "command", id: crypto.randomUUID(), command };
+    return new Promise<AckMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new Error("No acknowledgement from dashcam"));
+      }, ACK_TIMEOUT_MS);
+      this.pending.set(message.id, { resolve, reject, timer });
+      try {
+        this.channel.send(JSON.stringify(message));
+      } catch (err) {
+        clearTimeout(timer);
+        this.pending.delete(message.id);
+        reject(err);
+        return;
+      }
+      log.info("Control command sent:", command);
+    });
+  }
+
+  close() {
+    this.rejectAll(new Error("Control channel closed"));
+    this.channel.close();
+  }
+
+  private handleMessage(raw: unknown) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(String(raw));
+    } catch {
+      log.warn("Ignoring malformed control message:", raw);
+      return;
+    }
+    // Valid JSON is not necessarily a message: `null` or `42` parse fine.
+    if (typeof parsed !== "object" || parsed === null) {
+      log.warn("Ignoring malformed control message:", raw);
+      return;
+    }
+    const message = parsed as ControlMessage;
+
+    if (message.kind !== "ack") return;
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      log.warn("Ack for unknown control command:", message.id);
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+    pending.resolve(message);
+  }
+
+  private rejectAll(err: Error) {
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,53 @@
+// Command protocol spoken over the "control" RTCDataChannel. Every command carries an id and
+// the dashcam answers each one with an ack for that id.
+
+export type CameraPosition = "front" | "rear";
+
+export type ControlCommand =
+  | { type: "switch-camera"; camera: CameraPosition }
+  | { type: "set-resolution"; width: number; height: number }
+  | { type: "set-frame-rate"; fps: number }
+  | { type: "set-night-mode"; enabled: boolean }
+  | { type: "snapshot" };
+
+export type ControlCommandType = ControlCommand["type"];
+
+export interface CommandMessage {
+  kind: "command";
+  id: string;
+  command: ControlCommand;
+}
+
+export interface SnapshotResult {
+  mimeType: string;
+  imageBase64: string;
+  width?: number;
+  height?: number;
+}
+
+export interface AckMessage {
+  kind: "ack";
+  id: string;
+  ok: boolean;
+  error?: string;
+  snapshot?: SnapshotResult;
+}
+
+export type ControlMessage = CommandMessage | AckMessage;
+
+export const CONTROL_CHANNEL_LABEL = "control";
+
+export const describeCommand = (command: ControlCommand) => {
+  switch (command.type) {
+    case "switch-camera":
+      return `Switch to ${command.camera} camera`;
+    case "set-resolution":
+      return `Set resolution ${command.width}x${command.height}`;
+    case "set-frame-rate":
+      return `Set frame rate ${command.fps} fps`;
+    case "set-night-mode":
+      return `Night mode ${command.enabled ? "on" : "off"}`;
+    case "snapshot":
+      return "Snapshot";
+  }
+};
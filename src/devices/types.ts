@@ -0,0 +1,15 @@
+export type DeviceStatus = "online" | "offline";
+
+export interface Device {
+  id: string;
+  name?: string;
+  vehicle?: string;
+  status: DeviceStatus;
+  lastSeen?: number;
+}
+
+export interface DeviceStatusUpdate {
+  deviceId: string;
+  status: DeviceStatus;
+  lastSeen?: number;
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { socket } from "../sockets";
+import type { Device, DeviceStatusUpdate } from "./types";
+import { createLogger } from "../logging";
+
+const log = createLogger("socket");
+
+// Keeps the fleet registry in sync with the signaling server.
+// The full list is requested on every (re)connect; presence changes arrive as `device-status`.
+export const useDevices = () => {
+  const [devices, setDevices] = useState<Device[]>([]);
+
+  useEffect(() => {
+    const requestDevices = () => {
+      socket.emit("get-devices");
+    };
+
+    const handleDeviceList = (list: Device[]) => {
+      log.info("Device list received:", list.length);
+      setDevices(list);
+    };
+
+    const handleDeviceStatus = ({ deviceId, status, lastSeen }: DeviceStatusUpdate) => {
+      setDevices((prev) => {
+        const existing = prev.find((device) => device.id === deviceId);
+        if (!existing) {
+          return [...prev, { id: deviceId, status, lastSeen }];
+        }
+        return prev.map((device) =>
+          device.id === deviceId ? { ...device, status, lastSeen: lastSeen ?? device.lastSeen } : device
+        );
+      });
+    };
+
+    socket.on("connect", requestDevices);
+    socket.on("device-list", handleDeviceList);
+    socket.on("device-status", handleDeviceStatus);
+
+    if (socket.connected) requestDevices();
+
+    return () => {
+      socket.off("connect", requestDevices);
+      socket.off("device-list", handleDeviceList);
+      socket.off("device-status", handleDeviceStatus);
+    };
+  }, []);
+
+  return devices;
+};
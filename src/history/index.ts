@@ -0,0 +1,186 @@
+import { getAuth } from "../auth";
+import { StatsCollector, type StatsSample } from "../stats/StatsCollector";
+import { getAllRecords, putRecord } from "../storage/db";
+import { getSessionTranscript } from "../transcription";
+import type { TranscriptSegment } from "../transcription/types";
+import { toCsv } from "../utils/csv";
+import { callRouter } from "../webrtc";
+import type { CallDirection, CallEndReason, CallSession } from "../webrtc/CallSession";
+import type { CallKind } from "../webrtc/signaling";
+import { createLogger } from "../logging";
+
+const log = createLogger("app");
+
+export interface CallRecord {
+  id: string;
+  operatorId: string | null;
+  operatorName: string | null;
+  deviceId: string;
+  kind: CallKind;
+  direction: CallDirection;
+  startedAt: number;
+  connectedAt: number | null;
+  endedAt: number;
+  // Time spent connected; zero when the call never got through.
+  durationMs: number;
+  outcome: "ended" | "failed";
+  endReason: CallEndReason;
+  endMessage: string;
+  peakBitrateKbps: number;
+  peakFramesPerSecond: number | null;
+  peakFrameWidth: number | null;
+  peakFrameHeight: number | null;
+  maxRttMs: number | null;
+  maxJitterMs: number | null;
+  packetsLost: number;
+  // Absent on records saved before transcription existed.
+  transcript?: TranscriptSegment[];
+}
+
+export const END_REASON_LABELS: Record<CallEndReason, string> = {
+  hangup: "User hangup",
+  remote: "Remote call-ended",
+  "ice-failed": "ICE failure",
+  "connection-failed": "Connection failed",
+  error: "Socket/media error",
+};
+
+// Peak quality only needs a coarse view of the call, so poll less often than the stats panel.
+const STATS_INTERVAL_MS = 2000;
+
+const CSV_COLUMNS: (keyof CallRecord & string)[] = [
+  "id",
+  "operatorId",
+  "operatorName",
+  "deviceId",
+  "kind",
+  "direction",
+  "startedAt",
+  "connectedAt",
+  "endedAt",
+  "durationMs",
+  "outcome",
+  "endReason",
+  "endMessage",
+  "peakBitrateKbps",
+  "peakFramesPerSecond",
+  "peakFrameWidth",
+  "peakFrameHeight",
+  "maxRttMs",
+  "maxJitterMs",
+  "packetsLost",
+];
+
+// Records are append-only: this is the audit trail, so there is deliberately no delete.
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeCallHistory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Newest first.
+export const listCallRecords = async () => {
+  const records = await getAllRecords<CallRecord>("calls");
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const callRecordsToCsv = (records: CallRecord[]) =>
+  toCsv(CSV_COLUMNS, records, (column, value) =>
+    (column === "startedAt" || column === "connectedAt" || column === "endedAt") && value !== null
+      ? new Date(value as number).toISOString()
+      : value
+  );
+
+const maxOf = (current: number | null, next: number | null) =>
+  next === null ? current : current === null ? next : Math.max(current, next);
+
+// Follows one session from creation to its end and writes a single record for it. The
+// session's peer connection is replaced on a redial, so stats follow whichever one is current.
+const trackSession = (session: CallSession) => {
+  const operator = getAuth()?.operator ?? null;
+  const peaks = {
+    peakBitrateKbps: 0,
+    peakFramesPerSecond: null as number | null,
+    peakFrameWidth: null as number | null,
+    peakFrameHeight: null as number | null,
+    maxRttMs: null as number | null,
+    maxJitterMs: null as number | null,
+    packetsLost: 0,
+  };
+  const startedAt = Date.now();
+  let connectedAt: number | null = null;
+  let lastStatus = "";
+  let collector: StatsCollector | null = null;
+  let collectedPc: RTCPeerConnection | null = null;
+  // Packet loss counters restart with each peer connection.
+  let lostBeforeCurrentPc = 0;
+
+  const recordSample = (sample: StatsSample) => {
+    peaks.peakBitrateKbps = Math.max(peaks.peakBitrateKbps, sample.bitrateKbps);
+    peaks.peakFramesPerSecond = maxOf(peaks.peakFramesPerSecond, sample.framesPerSecond);
+    if (sample.frameWidth !== null && sample.frameWidth > (peaks.peakFrameWidth ?? 0)) {
+      peaks.peakFrameWidth = sample.frameWidth;
+      peaks.peakFrameHeight = sample.frameHeight;
+    }
+    peaks.maxRttMs = maxOf(peaks.maxRttMs, sample.rttMs);
+    peaks.maxJitterMs = maxOf(peaks.maxJitterMs, sample.jitterMs);
+    peaks.packetsLost = Math.max(peaks.packetsLost, lostBeforeCurrentPc + sample.packetsLost);
+  };
+
+  const stopCollector = () => {
+    collector?.stop();
+    collector = null;
+    collectedPc = null;
+    lostBeforeCurrentPc = peaks.packetsLost;
+  };
+
+  const unsubscribeStatus = session.on("status", (message) => {
+    lastStatus = message;
+  });
+
+  const unsubscribeState = session.on("state", (state) => {
+    // The peer connection appears after the `negotiating` transition and changes on a redial;
+    // by `connected` the current one is always in place.
+    if (session.pc && session.pc !== collectedPc) {
+      stopCollector();
+      collectedPc = session.pc;
+      collector = new StatsCollector(session.pc, STATS_INTERVAL_MS);
+      collector.onSample(recordSample);
+      collector.start();
+    }
+    if (state === "connected" && connectedAt === null) connectedAt = Date.now();
+    if (state !== "ended" && state !== "failed") return;
+
+    unsubscribeStatus();
+    unsubscribeState();
+    stopCollector();
+    const endedAt = Date.now();
+    const record: CallRecord = {
+      id: crypto.randomUUID(),
+      operatorId: operator?.id ?? null,
+      operatorName: operator?.name ?? null,
+      deviceId: session.deviceId,
+      kind: session.kind,
+      direction: session.direction,
+      startedAt,
+      connectedAt,
+      endedAt,
+      durationMs: connectedAt === null ? 0 : endedAt - connectedAt,
+      outcome: state,
+      endReason: session.endReason ?? "error",
+      endMessage: lastStatus,
+      ...peaks,
+      transcript: getSessionTranscript(session),
+    };
+    putRecord("calls", record)
+      .then(notify)
+      .catch((err) => log.error("Failed to save call record:", err));
+  });
+};
+
+callRouter.onSessionCreated(trackSession);
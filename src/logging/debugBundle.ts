@@ -0,0 +1,59 @@
+import { getAuth } from "../auth";
+import { getConfig, getConfigSource } from "../config";
+import type { StatsSample } from "../stats/StatsCollector";
+import { callRouter } from "../webrtc";
+import { getLogEntries } from ".";
+
+const REDACTED = "[redacted]";
+
+// Support tickets get passed around, so credentials never go into a bundle.
+const redactedConfig = () => {
+  const config = getConfig();
+  return {
+    ...config,
+    socketHeaders: Object.fromEntries(Object.keys(config.socketHeaders).map((name) => [name, REDACTED])),
+    iceServers: config.iceServers.map((server) => (server.credential ? { ...server, credential: REDACTED } : server)),
+  };
+};
+
+const describeSession = async (session: (typeof callRouter.activeSessions)[number]) => {
+  const { pc } = session;
+  const stats: RTCStats[] = [];
+  if (pc) {
+    try {
+      (await pc.getStats()).forEach((stat: RTCStats) => stats.push(stat));
+    } catch {
+      // The connection may have closed while the bundle was being built.
+    }
+  }
+  return {
+    deviceId: session.deviceId,
+    kind: session.kind,
+    direction: session.direction,
+    state: session.state,
+    endReason: session.endReason,
+    remoteSocketId: session.remoteSocketId,
+    reconnectAttempt: session.reconnectAttempt,
+    signalingState: pc?.signalingState ?? null,
+    iceConnectionState: pc?.iceConnectionState ?? null,
+    connectionState: pc?.connectionState ?? null,
+    localDescription: pc?.localDescription?.sdp ?? null,
+    remoteDescription: pc?.remoteDescription?.sdp ?? null,
+    stats,
+  };
+};
+
+// Everything support needs to reconstruct a call: the log (which also carries the SDPs of
+// calls that have already ended), the live state of every session and the stats timeline.
+export const buildDebugBundle = async (statsSamples: StatsSample[]) => {
+  const operator = getAuth()?.operator;
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    operator: operator ? { id: operator.id, name: operator.name, role: operator.role } : null,
+    config: { source: getConfigSource(), ...redactedConfig() },
+    sessions: await Promise.all(callRouter.activeSessions.map(describeSession)),
+    statsSamples,
+    logs: getLogEntries(),
+  };
+};
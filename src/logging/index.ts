@@ -0,0 +1,118 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogNamespace = "signaling" | "ice" | "media" | "socket" | "control" | "app";
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  namespace: LogNamespace;
+  message: string;
+  // JSON-safe copies of the extra arguments, so the buffer never pins streams or peer connections.
+  data: unknown[];
+}
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export const LOG_NAMESPACES: LogNamespace[] = ["signaling", "ice", "media", "socket", "control", "app"];
+
+const BUFFER_SIZE = 2000;
+const CONSOLE_LEVEL_KEY = "log-level";
+
+const CONSOLE_METHODS: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: console.debug,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
+// Everything is kept in the ring buffer; only the console output is filtered, so production
+// stays quiet unless `localStorage["log-level"]` asks for more.
+const readConsoleLevel = (): LogLevel => {
+  const stored = localStorage.getItem(CONSOLE_LEVEL_KEY);
+  if (LOG_LEVELS.includes(stored as LogLevel)) return stored as LogLevel;
+  return import.meta.env.DEV ? "debug" : "warn";
+};
+
+const consoleLevel = readConsoleLevel();
+
+const buffer: (LogEntry | undefined)[] = new Array(BUFFER_SIZE);
+let nextId = 0;
+// Entries before this id were cleared; ids keep counting so they stay unique.
+let firstId = 0;
+let snapshot: LogEntry[] = [];
+let snapshotStale = false;
+const listeners = new Set<() => void>();
+
+export const isLevelAtLeast = (level: LogLevel, minimum: LogLevel) => LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+
+const toLoggable = (value: unknown): unknown => {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  if (value === undefined || typeof value === "function") return String(value);
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+};
+
+const write = (level: LogLevel, namespace: LogNamespace, message: string, data: unknown[]) => {
+  const entry: LogEntry = {
+    id: nextId,
+    timestamp: Date.now(),
+    level,
+    namespace,
+    message,
+    data: data.map(toLoggable),
+  };
+  buffer[nextId % BUFFER_SIZE] = entry;
+  nextId += 1;
+  snapshotStale = true;
+
+  if (isLevelAtLeast(level, consoleLevel)) {
+    CONSOLE_METHODS[level](`[${namespace}] ${message}`, ...data);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export interface Logger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+export const createLogger = (namespace: LogNamespace): Logger => ({
+  debug: (message, ...data) => write("debug", namespace, message, data),
+  info: (message, ...data) => write("info", namespace, message, data),
+  warn: (message, ...data) => write("warn", namespace, message, data),
+  error: (message, ...data) => write("error", namespace, message, data),
+});
+
+// Oldest first. The array is rebuilt at most once per change so it can back useSyncExternalStore.
+export const getLogEntries = () => {
+  if (snapshotStale) {
+    const start = Math.max(firstId, nextId - BUFFER_SIZE);
+    snapshot = [];
+    for (let id = start; id < nextId; id += 1) {
+      snapshot.push(buffer[id % BUFFER_SIZE]!);
+    }
+    snapshotStale = false;
+  }
+  return snapshot;
+};
+
+export const subscribeLog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearLog = () => {
+  buffer.fill(undefined);
+  firstId = nextId;
+  snapshot = [];
+  snapshotStale = false;
+  listeners.forEach((listener) => listener());
+};
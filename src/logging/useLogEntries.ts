@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getLogEntries, subscribeLog } from ".";
+
+export const useLogEntries = () => useSyncExternalStore(subscribeLog, getLogEntries);
@@ -0,0 +1,164 @@
+import { createLogger } from "../logging";
+import { dbToGain, LevelMeter, measureBlock, type MeterReading } from "./audioLevels";
+
+const log = createLogger("media");
+
+export interface AudioProcessingSettings {
+  // Operator-side boost or cut of the dashcam audio, in dB.
+  gainDb: number;
+  noiseGate: boolean;
+  noiseGateThresholdDb: number;
+  // 0..1, what the operator hears; does not affect the meter.
+  listenVolume: number;
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  gainDb: 0,
+  noiseGate: false,
+  noiseGateThresholdDb: -50,
+  listenVolume: 1,
+};
+
+const GATE_INTERVAL_MS = 20;
+// Keeps the gate open briefly after the level drops, so word endings are not chopped.
+const GATE_HOLD_MS = 200;
+const GATE_ATTACK_S = 0.005;
+const GATE_RELEASE_S = 0.05;
+
+interface RemoteChain {
+  source: MediaStreamAudioSourceNode;
+  detector: AnalyserNode;
+  gate: GainNode;
+  gain: GainNode;
+  listen: GainNode;
+  meter: LevelMeter;
+  // Chrome only feeds a remote WebRTC stream into Web Audio while a media element plays it.
+  keepAlive: HTMLAudioElement;
+}
+
+interface LocalChain {
+  trackId: string;
+  source: MediaStreamAudioSourceNode;
+  meter: LevelMeter;
+}
+
+const createAnalyser = (context: AudioContext) => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  return analyser;
+};
+
+// One AudioContext per call. The dashcam audio runs through
+//   source -> noise gate -> operator gain -> meter -> listen volume -> output stream
+// and the admin's microphone through a meter only. close() releases all of it.
+export class AudioPipeline {
+  private context = new AudioContext();
+  private settings: AudioProcessingSettings;
+  private remote: RemoteChain | null = null;
+  private local: LocalChain | null = null;
+  private output: MediaStreamAudioDestinationNode;
+  private gateTimer: ReturnType<typeof setInterval> | null = null;
+  private gateOpenUntil = 0;
+
+  constructor(settings: AudioProcessingSettings) {
+    this.settings = settings;
+    this.output = this.context.createMediaStreamDestination();
+  }
+
+  // Returns the processed stream to play instead of the raw remote one.
+  attachRemote(stream: MediaStream) {
+    this.detachRemote();
+    const { context } = this;
+
+    const keepAlive = new Audio();
+    keepAlive.muted = true;
+    keepAlive.srcObject = stream;
+    keepAlive.play().catch(() => undefined);
+
+    const source = context.createMediaStreamSource(stream);
+    const detector = createAnalyser(context);
+    const gate = context.createGain();
+    const gain = context.createGain();
+    const meterAnalyser = createAnalyser(context);
+    const listen = context.createGain();
+    source.connect(detector);
+    source.connect(gate).connect(gain).connect(meterAnalyser).connect(listen).connect(this.output);
+
+    this.remote = { source, detector, gate, gain, listen, meter: new LevelMeter(meterAnalyser), keepAlive };
+    this.applySettings();
+    this.gateTimer = setInterval(() => this.updateGate(), GATE_INTERVAL_MS);
+    this.resume();
+    return this.output.stream;
+  }
+
+  // Safe to call with the same stream again; the meter follows the current audio track.
+  attachLocal(stream: MediaStream | null) {
+    const track = stream?.getAudioTracks()[0];
+    if (this.local && this.local.trackId === track?.id) return;
+    this.local?.source.disconnect();
+    this.local = null;
+    if (!track) return;
+
+    const source = this.context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = createAnalyser(this.context);
+    source.connect(analyser);
+    this.local = { trackId: track.id, source, meter: new LevelMeter(analyser) };
+  }
+
+  updateSettings(settings: AudioProcessingSettings) {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  readLevels(): { remote: MeterReading | null; local: MeterReading | null } {
+    const now = performance.now();
+    return { remote: this.remote?.meter.read(now) ?? null, local: this.local?.meter.read(now) ?? null };
+  }
+
+  // Autoplay policies can leave the context suspended until the next user gesture.
+  resume() {
+    if (this.context.state === "suspended") {
+      this.context.resume().catch((err) => log.warn("Audio context could not resume:", err));
+    }
+  }
+
+  close() {
+    this.detachRemote();
+    this.attachLocal(null);
+    this.context.close().catch((err) => log.warn("Failed to close audio context:", err));
+  }
+
+  private detachRemote() {
+    if (this.gateTimer) clearInterval(this.gateTimer);
+    this.gateTimer = null;
+    if (!this.remote) return;
+    this.remote.source.disconnect();
+    this.remote.listen.disconnect();
+    this.remote.keepAlive.srcObject = null;
+    this.remote = null;
+  }
+
+  private applySettings() {
+    if (!this.remote) return;
+    const { currentTime } = this.context;
+    this.remote.gain.gain.setTargetAtTime(dbToGain(this.settings.gainDb), currentTime, 0.02);
+    this.remote.listen.gain.setTargetAtTime(this.settings.listenVolume, currentTime, 0.02);
+    if (!this.settings.noiseGate) this.remote.gate.gain.setTargetAtTime(1, currentTime, GATE_ATTACK_S);
+  }
+
+  // The gate is driven from the level before any processing, so operator gain does not move
+  // the threshold. It reads the unclamped level: thresholds below the meter floor must still close.
+  private updateGate() {
+    const remote = this.remote;
+    if (!remote || !this.settings.noiseGate) return;
+
+    const samples = new Float32Array(remote.detector.fftSize);
+    remote.detector.getFloatTimeDomainData(samples);
+    const levelDb = 20 * Math.log10(measureBlock(samples).rms);
+    const now = performance.now();
+    if (levelDb >= this.settings.noiseGateThresholdDb) this.gateOpenUntil = now + GATE_HOLD_MS;
+
+    const open = now < this.gateOpenUntil;
+    remote.gate.gain.setTargetAtTime(open ? 1 : 0, this.context.currentTime, open ? GATE_ATTACK_S : GATE_RELEASE_S);
+  }
+}
@@ -0,0 +1,61 @@
+// Floor of the meters; anything quieter reads as silence.
+export const MIN_DBFS = -60;
+// A sample this close to full scale is treated as clipped.
+const CLIP_LEVEL = 0.99;
+const PEAK_HOLD_MS = 1000;
+const PEAK_FALL_DB_PER_SECOND = 20;
+const CLIP_HOLD_MS = 1500;
+
+export interface MeterReading {
+  rmsDb: number;
+  // Held peak, falling back after PEAK_HOLD_MS.
+  peakDb: number;
+  clipping: boolean;
+}
+
+export const toDbfs = (amplitude: number) => (amplitude > 0 ? Math.max(MIN_DBFS, 20 * Math.log10(amplitude)) : MIN_DBFS);
+
+export const dbToGain = (db: number) => 10 ** (db / 20);
+
+// RMS and sample peak of one block of time-domain samples in [-1, 1].
+export const measureBlock = (samples: Float32Array) => {
+  let sumOfSquares = 0;
+  let peak = 0;
+  for (const sample of samples) {
+    sumOfSquares += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return { rms: Math.sqrt(sumOfSquares / samples.length), peak };
+};
+
+// VU/peak meter on top of an AnalyserNode: RMS level, a held and decaying peak, and a clip
+// indicator that stays lit long enough to be noticed.
+export class LevelMeter {
+  private analyser: AnalyserNode;
+  private samples: Float32Array<ArrayBuffer>;
+  private peakDb = MIN_DBFS;
+  private peakAt = 0;
+  private clippedAt = -Infinity;
+
+  constructor(analyser: AnalyserNode) {
+    this.analyser = analyser;
+    this.samples = new Float32Array(analyser.fftSize);
+  }
+
+  read(now = performance.now()): MeterReading {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    const { rms, peak } = measureBlock(this.samples);
+    const blockPeakDb = toDbfs(peak);
+
+    if (blockPeakDb >= this.peakDb) {
+      this.peakDb = blockPeakDb;
+      this.peakAt = now;
+    } else if (now - this.peakAt > PEAK_HOLD_MS) {
+      const fallen = this.peakDb - (PEAK_FALL_DB_PER_SECOND * (now - this.peakAt - PEAK_HOLD_MS)) / 1000;
+      this.peakDb = Math.max(blockPeakDb, fallen);
+    }
+    if (peak >= CLIP_LEVEL) this.clippedAt = now;
+
+    return { rmsDb: toDbfs(rms), peakDb: this.peakDb, clipping: now - this.clippedAt < CLIP_HOLD_MS };
+  }
+}
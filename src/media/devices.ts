@@ -0,0 +1,65 @@
+import type { VideoQualityId } from "../webrtc/videoQuality";
+import { DEFAULT_AUDIO_PROCESSING, type AudioProcessingSettings } from "./AudioPipeline";
+
+export interface MediaPreferences {
+  microphoneId: string | null;
+  cameraId: string | null;
+  speakerId: string | null;
+  sendCamera: boolean;
+  pushToTalk: boolean;
+  videoQuality: VideoQualityId;
+  audioProcessing: AudioProcessingSettings;
+}
+
+const PREFERENCES_KEY = "media-preferences";
+
+const DEFAULT_PREFERENCES: MediaPreferences = {
+  microphoneId: null,
+  cameraId: null,
+  speakerId: null,
+  sendCamera: false,
+  pushToTalk: false,
+  videoQuality: "balanced",
+  audioProcessing: DEFAULT_AUDIO_PROCESSING,
+};
+
+export const loadMediaPreferences = (): MediaPreferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const saveMediaPreferences = (preferences: MediaPreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+export const microphoneConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+});
+
+export const cameraConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  width: { ideal: 640 },
+  height: { ideal: 360 },
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+});
+
+// Local media an admin sends for a call, or null when the call is receive-only.
+export const buildLocalMedia = (
+  preferences: MediaPreferences,
+  { audio, video }: { audio: boolean; video: boolean }
+): MediaStreamConstraints | null => {
+  if (!audio && !video) return null;
+  return {
+    audio: audio ? microphoneConstraints(preferences.microphoneId) : false,
+    video: video ? cameraConstraints(preferences.cameraId) : false,
+  };
+};
+
+// HTMLMediaElement.setSinkId is not available in every browser (notably older Firefox/Safari).
+export const supportsOutputSelection = () => "setSinkId" in HTMLMediaElement.prototype;
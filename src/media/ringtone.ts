@@ -0,0 +1,32 @@
+const RING_INTERVAL_MS = 3000;
+
+let audioContext: AudioContext | null = null;
+let ringTimer: ReturnType<typeof setInterval> | null = null;
+
+// Two-tone telephone-style ring, synthesized so no audio asset has to ship with the app.
+const ringOnce = () => {
+  audioContext ??= new AudioContext();
+  const start = audioContext.currentTime;
+  const gain = audioContext.createGain();
+  gain.gain.setValueAtTime(0.15, start);
+  gain.gain.setValueAtTime(0, start + 1);
+  gain.connect(audioContext.destination);
+  [440, 480].forEach((frequency) => {
+    const oscillator = audioContext!.createOscillator();
+    oscillator.frequency.value = frequency;
+    oscillator.connect(gain);
+    oscillator.start(start);
+    oscillator.stop(start + 1);
+  });
+};
+
+export const startRinging = () => {
+  if (ringTimer) return;
+  ringOnce();
+  ringTimer = setInterval(ringOnce, RING_INTERVAL_MS);
+};
+
+export const stopRinging = () => {
+  if (ringTimer) clearInterval(ringTimer);
+  ringTimer = null;
+};
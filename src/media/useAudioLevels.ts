@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import type { AudioPipeline } from "./AudioPipeline";
+import type { MeterReading } from "./audioLevels";
+
+// Re-rendering on every animation frame is wasted work for a meter the eye cannot follow.
+const UPDATE_INTERVAL_MS = 50;
+
+export interface AudioLevels {
+  remote: MeterReading | null;
+  local: MeterReading | null;
+}
+
+const NO_LEVELS: AudioLevels = { remote: null, local: null };
+
+export const useAudioLevels = (pipeline: AudioPipeline | null): AudioLevels => {
+  const [levels, setLevels] = useState<AudioLevels>(NO_LEVELS);
+
+  useEffect(() => {
+    if (!pipeline) {
+      setLevels(NO_LEVELS);
+      return;
+    }
+
+    let frame = 0;
+    let lastUpdate = 0;
+    const tick = (now: number) => {
+      if (now - lastUpdate >= UPDATE_INTERVAL_MS) {
+        lastUpdate = now;
+        setLevels(pipeline.readLevels());
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [pipeline]);
+
+  return levels;
+};
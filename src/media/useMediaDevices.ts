@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { createLogger } from "../logging";
+
+const log = createLogger("media");
+
+export interface MediaDeviceLists {
+  microphones: MediaDeviceInfo[];
+  cameras: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
+}
+
+const EMPTY: MediaDeviceLists = { microphones: [], cameras: [], speakers: [] };
+
+// Device labels are only filled in once the page has been granted media access,
+// so the list is refreshed on `devicechange` and whenever `refreshKey` changes.
+export const useMediaDevices = (refreshKey?: unknown) => {
+  const [devices, setDevices] = useState<MediaDeviceLists>(EMPTY);
+
+  useEffect(() => {
+    const refresh = () => {
+      navigator.mediaDevices
+        .enumerateDevices()
+        .then((list) =>
+          setDevices({
+            microphones: list.filter((device) => device.kind === "audioinput"),
+            cameras: list.filter((device) => device.kind === "videoinput"),
+            speakers: list.filter((device) => device.kind === "audiooutput"),
+          })
+        )
+        .catch((err) => log.error("Failed to enumerate media devices:", err));
+    };
+
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refreshKey]);
+
+  return devices;
+};
@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+
+const PTT_KEY = "Space";
+
+// Space also types into fields and activates a focused button, so PTT stays out of both.
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(target.tagName) ||
+    target.getAttribute("role") === "button");
+
+// Calls `onTalkingChange(true)` while the push-to-talk key is held.
+export const usePushToTalk = (enabled: boolean, onTalkingChange: (talking: boolean) => void) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== PTT_KEY || e.repeat || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      onTalkingChange(true);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== PTT_KEY) return;
+      if (!isTypingTarget(e.target)) e.preventDefault();
+      onTalkingChange(false);
+    };
+
+    // Releasing the key in another window would otherwise leave the mic open.
+    const handleBlur = () => onTalkingChange(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, [enabled, onTalkingChange]);
+};
@@ -0,0 +1,92 @@
+export type Rotation = 0 | 90 | 180 | 270;
+
+// How the operator is looking at the remote feed. Purely local: nothing here changes
+// what the dashcam sends.
+export interface VideoView {
+  zoom: number;
+  // Offset of the zoomed picture from centre, as a fraction of the element size.
+  panX: number;
+  panY: number;
+  rotation: Rotation;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export type VideoOrientation = Pick<VideoView, "rotation" | "flipH" | "flipV">;
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+export const ZOOM_STEP = 1.25;
+// Fraction of the element moved per arrow key press.
+export const PAN_STEP = 0.05;
+
+const ORIENTATION_KEY = "video-orientation";
+
+const DEFAULT_ORIENTATION: VideoOrientation = { rotation: 0, flipH: false, flipV: false };
+
+export const defaultVideoView = (orientation: VideoOrientation = DEFAULT_ORIENTATION): VideoView => ({
+  zoom: 1,
+  panX: 0,
+  panY: 0,
+  ...orientation,
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keeps the picture covering the element: at zoom z it can move (z - 1) / 2 each way.
+const clampPan = (view: VideoView): VideoView => {
+  const limit = (view.zoom - 1) / 2;
+  return { ...view, panX: clamp(view.panX, -limit, limit), panY: clamp(view.panY, -limit, limit) };
+};
+
+// Zooms about `focus` (fractions of the element, -0.5..0.5 from centre) so the point under
+// the cursor stays put.
+export const zoomView = (view: VideoView, factor: number, focus = { x: 0, y: 0 }): VideoView => {
+  const zoom = clamp(view.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+  const ratio = zoom / view.zoom;
+  return clampPan({
+    ...view,
+    zoom,
+    panX: focus.x - ratio * (focus.x - view.panX),
+    panY: focus.y - ratio * (focus.y - view.panY),
+  });
+};
+
+export const panView = (view: VideoView, dx: number, dy: number) =>
+  clampPan({ ...view, panX: view.panX + dx, panY: view.panY + dy });
+
+export const rotateView = (view: VideoView): VideoView => ({
+  ...view,
+  rotation: ((view.rotation + 90) % 360) as Rotation,
+});
+
+// `aspectRatio` is the video's width / height; a quarter turn shrinks the picture so it
+// still fits the element.
+export const videoViewTransform = (view: VideoView, aspectRatio: number) => {
+  const quarterTurn = view.rotation === 90 || view.rotation === 270;
+  const fit = quarterTurn && aspectRatio > 0 ? Math.min(aspectRatio, 1 / aspectRatio) : 1;
+  return [
+    `translate(${view.panX * 100}%, ${view.panY * 100}%)`,
+    `scale(${view.zoom * fit})`,
+    `rotate(${view.rotation}deg)`,
+    `scale(${view.flipH ? -1 : 1}, ${view.flipV ? -1 : 1})`,
+  ].join(" ");
+};
+
+const loadOrientations = (): Record<string, VideoOrientation> => {
+  try {
+    return JSON.parse(localStorage.getItem(ORIENTATION_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+// Orientation is remembered per dashcam, since it follows how the camera is mounted.
+export const loadVideoOrientation = (deviceId: string): VideoOrientation => ({
+  ...DEFAULT_ORIENTATION,
+  ...loadOrientations()[deviceId],
+});
+
+export const saveVideoOrientation = (deviceId: string, { rotation, flipH, flipV }: VideoOrientation) => {
+  localStorage.setItem(ORIENTATION_KEY, JSON.stringify({ ...loadOrientations(), [deviceId]: { rotation, flipH, flipV } }));
+};
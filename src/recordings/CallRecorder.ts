@@ -0,0 +1,100 @@
+import { getTelemetryHistory } from "../telemetry";
+import type { CallKind } from "../webrtc/signaling";
+import { finalizeRecording, saveRecordingChunk, type Recording, type RecordingMeta } from ".";
+import { createLogger } from "../logging";
+
+const log = createLogger("media");
+
+const VIDEO_MIME_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+const AUDIO_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm"];
+// Each timeslice is written to IndexedDB as it arrives, so this is how much a crash can lose.
+const TIMESLICE_MS = 1000;
+
+const pickMimeType = (stream: MediaStream) => {
+  const candidates = stream.getVideoTracks().length > 0 ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES;
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+};
+
+// Records the remote stream of one call, persisting chunks as they arrive and joining them into
+// a saved recording on stop.
+export class CallRecorder {
+  readonly id = crypto.randomUUID();
+  readonly deviceId: string;
+  readonly kind: CallKind;
+  readonly startedAt: number;
+  private recorder: MediaRecorder;
+  private seq = 0;
+  // Chunk writes in arrival order; stop() waits for them before joining.
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(stream: MediaStream, deviceId: string, kind: CallKind) {
+    this.deviceId = deviceId;
+    this.kind = kind;
+    this.startedAt = Date.now();
+    this.recorder = new MediaRecorder(stream, { mimeType: pickMimeType(stream) });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.persistChunk(event.data);
+    };
+    this.recorder.start(TIMESLICE_MS);
+    window.addEventListener("pagehide", this.handlePageHide);
+    log.info("Recording started:", deviceId, this.recorder.mimeType);
+  }
+
+  get isRecording() {
+    return this.recorder.state === "recording";
+  }
+
+  private get meta(): RecordingMeta {
+    return {
+      id: this.id,
+      deviceId: this.deviceId,
+      kind: this.kind,
+      startedAt: this.startedAt,
+      mimeType: this.recorder.mimeType || "video/webm",
+    };
+  }
+
+  private persistChunk(blob: Blob) {
+    const seq = this.seq++;
+    this.writes = this.writes
+      .then(() => saveRecordingChunk(this.meta, seq, blob))
+      .then(
+        () => undefined,
+        (err) => log.error("Failed to persist recording chunk:", seq, err),
+      );
+  }
+
+  // Flushes the partial timeslice when the tab goes away; whatever reaches IndexedDB is
+  // recovered on the next load.
+  private handlePageHide = () => {
+    if (this.isRecording) this.recorder.requestData();
+  };
+
+  stop() {
+    window.removeEventListener("pagehide", this.handlePageHide);
+    return new Promise<Recording>((resolve, reject) => {
+      this.recorder.onstop = async () => {
+        const endedAt = Date.now();
+        try {
+          await this.writes;
+          const recording = await finalizeRecording(
+            this.meta,
+            endedAt,
+            getTelemetryHistory(this.deviceId, this.startedAt, endedAt),
+          );
+          log.info("Recording saved:", recording.id, `${recording.size} bytes`);
+          resolve(recording);
+        } catch (err) {
+          log.error("Failed to save recording:", err);
+          reject(err);
+        }
+      };
+
+      if (this.recorder.state === "inactive") {
+        this.recorder.onstop?.(new Event("stop"));
+      } else {
+        this.recorder.stop();
+      }
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { createLogger } from "../logging";
+import { deleteRecord, deleteRecordsInRange, getAllRecords, getRecord, getRecordsInRange, putRecord } from "../storage/db";
+import type { TelemetryPoint } from "../telemetry/types";
+import type { CallKind } from "../webrtc/signaling";
+
+export interface Recording {
+  id: string;
+  deviceId: string;
+  kind: CallKind;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  mimeType: string;
+  size: number;
+  blob: Blob;
+  // GPS track received while the recording was running.
+  telemetry?: TelemetryPoint[];
+}
+
+export type RecordingMeta = Pick<Recording, "id" | "deviceId" | "kind" | "startedAt" | "mimeType">;
+
+// One MediaRecorder timeslice, written as soon as it arrives so a crash or closed tab only loses
+// the last second of a recording.
+interface RecordingChunk extends Omit<RecordingMeta, "id"> {
+  // `${recordingId}:${seq}` with a zero-padded seq, so a key range returns the chunks in order.
+  id: string;
+  recordingId: string;
+  seq: number;
+  savedAt: number;
+  blob: Blob;
+}
+
+const log = createLogger("media");
+
+// Active recorders write a chunk every second; chunks quiet for longer than this were left by
+// a tab that went away mid-recording.
+const ORPHANED_CHUNK_MS = 30_000;
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeRecordings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const chunkRange = (recordingId: string) => IDBKeyRange.bound(`${recordingId}:`, `${recordingId}:\uffff`);
+
+export const saveRecordingChunk = ({ id, ...meta }: RecordingMeta, seq: number, blob: Blob) =>
+  putRecord<RecordingChunk>("recordingChunks", {
+    ...meta,
+    id: `${id}:${String(seq).padStart(8, "0")}`,
+    recordingId: id,
+    seq,
+    savedAt: Date.now(),
+    blob,
+  });
+
+// Joins the chunks persisted so far into a saved recording and drops them.
+export const finalizeRecording = async (meta: RecordingMeta, endedAt: number, telemetry?: TelemetryPoint[]) => {
+  const chunks = await getRecordsInRange<RecordingChunk>("recordingChunks", chunkRange(meta.id));
+  const blob = new Blob(chunks.map((chunk) => chunk.blob), { type: meta.mimeType });
+  const recording: Recording = {
+    ...meta,
+    endedAt,
+    durationMs: endedAt - meta.startedAt,
+    size: blob.size,
+    blob,
+    telemetry,
+  };
+  await putRecord("recordings", recording);
+  await deleteRecordsInRange("recordingChunks", chunkRange(meta.id));
+  notify();
+  return recording;
+};
+
+let recovery: Promise<number> | null = null;
+
+// Saves recordings whose tab crashed or closed before stop(). Runs once per page load.
+export const recoverInterruptedRecordings = () => {
+  recovery ??= (async () => {
+    const chunks = await getAllRecords<RecordingChunk>("recordingChunks");
+    const byRecording = new Map<string, RecordingChunk[]>();
+    chunks.forEach((chunk) => byRecording.set(chunk.recordingId, [...(byRecording.get(chunk.recordingId) ?? []), chunk]));
+
+    let recovered = 0;
+    for (const group of byRecording.values()) {
+      const lastSavedAt = Math.max(...group.map((chunk) => chunk.savedAt));
+      if (Date.now() - lastSavedAt < ORPHANED_CHUNK_MS) continue;
+      const { recordingId, deviceId, kind, startedAt, mimeType } = group[0];
+      await finalizeRecording({ id: recordingId, deviceId, kind, startedAt, mimeType }, lastSavedAt);
+      recovered += 1;
+    }
+    if (recovered > 0) log.info("Recovered interrupted recordings:", recovered);
+    return recovered;
+  })();
+  return recovery;
+};
+
+export const getRecording = (id: string) => getRecord<Recording>("recordings", id);
+
+// Newest first.
+export const listRecordings = async () => {
+  const recordings = await getAllRecords<Recording>("recordings");
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteRecording = async (id: string) => {
+  await deleteRecord("recordings", id);
+  notify();
+};
+
+export const recordingFileName = (recording: Recording) => {
+  const timestamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, "-");
+  return `${recording.deviceId}-${recording.kind}-${timestamp}.webm`;
+};
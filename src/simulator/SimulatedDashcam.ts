@@ -0,0 +1,267 @@
+import { io, type Socket } from "socket.io-client";
+import type { AckMessage, ControlCommand, ControlMessage } from "../control/protocol";
+import { CONTROL_CHANNEL_LABEL } from "../control/protocol";
+import { SIGNALING_CHANNELS, isCandidate, isDescription, type CallKind, type SignalData, type SignalEnvelope } from "../webrtc/signaling";
+import { SyntheticMedia } from "./SyntheticMedia";
+
+export interface SimulatedCall {
+  key: string;
+  kind: CallKind;
+  adminId: string;
+  pc: RTCPeerConnection;
+  pendingCandidates: RTCIceCandidateInit[];
+  remoteAudio: HTMLAudioElement | null;
+}
+
+export interface DashcamIdentity {
+  deviceId: string;
+  name?: string;
+  vehicle?: string;
+}
+
+const MAX_LOG_LINES = 50;
+const TELEMETRY_INTERVAL_MS = 1000;
+// Drives in a circle around central London.
+const ROUTE_CENTER = { lat: 51.5074, lon: -0.1278 };
+const ROUTE_RADIUS_DEG = 0.01;
+
+// The dashcam side of the signaling protocol, for development without hardware. It answers
+// the admin's offers with SyntheticMedia and acks control commands like the real firmware.
+export class SimulatedDashcam {
+  readonly identity: DashcamIdentity;
+  readonly media: SyntheticMedia;
+  readonly calls = new Map<string, SimulatedCall>();
+  log: string[] = [];
+  connected = false;
+  pendingSos: CallKind | null = null;
+  telemetryEnabled = false;
+  private socket: Socket;
+  private telemetryTimer: ReturnType<typeof setInterval> | null = null;
+  private routeAngle = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(identity: DashcamIdentity) {
+    this.identity = identity;
+    this.media = new SyntheticMedia(identity.name ?? identity.deviceId);
+    this.socket = io(window.location.origin, { auth: { role: "dashcam", ...identity } });
+
+    this.socket.on("connect", () => {
+      this.connected = true;
+      this.addLog(`Connected as ${this.socket.id}`);
+    });
+    this.socket.on("disconnect", (reason) => {
+      this.connected = false;
+      this.addLog(`Disconnected: ${reason}`);
+    });
+
+    (Object.keys(SIGNALING_CHANNELS) as CallKind[]).forEach((kind) => this.attachChannel(kind));
+  }
+
+  onChange(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  startSos(kind: CallKind) {
+    this.pendingSos = kind;
+    this.socket.emit(SIGNALING_CHANNELS[kind].incoming, { reason: "sos" });
+    this.addLog(`SOS ${kind} call placed`);
+  }
+
+  cancelSos() {
+    if (!this.pendingSos) return;
+    this.socket.emit(SIGNALING_CHANNELS[this.pendingSos].ended, {});
+    this.addLog("SOS call cancelled");
+    this.pendingSos = null;
+    this.notify();
+  }
+
+  raiseAlert(type: string) {
+    this.socket.emit("dashcam-alert", {
+      type,
+      message: `Simulated ${type}`,
+      timestamp: Date.now(),
+      location: this.position(),
+    });
+    this.addLog(`Raised ${type} alert`);
+  }
+
+  setTelemetry(enabled: boolean) {
+    this.telemetryEnabled = enabled;
+    if (this.telemetryTimer) clearInterval(this.telemetryTimer);
+    this.telemetryTimer = enabled ? setInterval(() => this.sendTelemetry(), TELEMETRY_INTERVAL_MS) : null;
+    this.notify();
+  }
+
+  hangUp(key: string) {
+    const call = this.calls.get(key);
+    if (!call) return;
+    this.socket.emit(SIGNALING_CHANNELS[call.kind].ended, { to: call.adminId });
+    this.closeCall(key, "Hung up");
+  }
+
+  destroy() {
+    [...this.calls.keys()].forEach((key) => this.hangUp(key));
+    this.setTelemetry(false);
+    this.socket.disconnect();
+    this.media.stop();
+    this.listeners.clear();
+  }
+
+  private attachChannel(kind: CallKind) {
+    const channel = SIGNALING_CHANNELS[kind];
+    const ready = (from: string) => this.sendSignal(kind, from, { type: "ready" });
+
+    this.socket.on(channel.start, ({ from }: { from: string }) => {
+      this.addLog(`Admin ${from} is dialling (${kind})`);
+      ready(from);
+    });
+    this.socket.on(channel.accept, ({ from }: { from: string }) => {
+      this.addLog(`Admin ${from} accepted the SOS call`);
+      this.pendingSos = null;
+      ready(from);
+    });
+    this.socket.on(channel.decline, () => {
+      this.addLog("SOS call declined");
+      this.pendingSos = null;
+      this.notify();
+    });
+    this.socket.on(channel.signal, ({ from, data }: SignalEnvelope) => {
+      this.handleSignal(kind, from, data).catch((err) => this.addLog(`Signal error: ${err.message}`));
+    });
+    this.socket.on(channel.end, ({ from }: { from: string }) => this.closeCall(`${kind}:${from}`, "Admin hung up"));
+    this.socket.on(channel.ended, ({ from }: { from: string }) => this.closeCall(`${kind}:${from}`, "Admin ended the call"));
+  }
+
+  private async handleSignal(kind: CallKind, from: string, data: SignalData) {
+    const key = `${kind}:${from}`;
+
+    if (isDescription(data) && data.type === "offer") {
+      const call = this.calls.get(key) ?? this.createCall(key, kind, from);
+      await call.pc.setRemoteDescription(data);
+      for (const candidate of call.pendingCandidates.splice(0)) {
+        await call.pc.addIceCandidate(candidate);
+      }
+      await call.pc.setLocalDescription(await call.pc.createAnswer());
+      this.sendSignal(kind, from, call.pc.localDescription!.toJSON() as SignalData);
+      this.addLog(`Answered ${kind} offer from ${from}`);
+    } else if (isCandidate(data)) {
+      const call = this.calls.get(key);
+      const candidate = typeof data.candidate === "string" ? { candidate: data.candidate } : data.candidate;
+      if (!call || !candidate?.candidate) return;
+      if (call.pc.remoteDescription) {
+        await call.pc.addIceCandidate(candidate);
+      } else {
+        call.pendingCandidates.push(candidate);
+      }
+    }
+  }
+
+  private createCall(key: string, kind: CallKind, adminId: string) {
+    const pc = new RTCPeerConnection({ iceServers: [] });
+    const call: SimulatedCall = { key, kind, adminId, pc, pendingCandidates: [], remoteAudio: null };
+    this.calls.set(key, call);
+
+    const tracks = kind === "video" ? this.media.stream.getTracks() : this.media.stream.getAudioTracks();
+    tracks.forEach((track) => pc.addTrack(track, this.media.stream));
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) this.sendSignal(kind, adminId, { candidate: event.candidate.toJSON() });
+    };
+    pc.ontrack = (event) => {
+      if (event.track.kind !== "audio") return;
+      // The operator's voice, so push-to-talk can be heard on the simulator.
+      call.remoteAudio ??= new Audio();
+      call.remoteAudio.srcObject = event.streams[0];
+      call.remoteAudio.play().catch(() => this.addLog("Click the page to hear the operator"));
+    };
+    pc.ondatachannel = (event) => {
+      if (event.channel.label === CONTROL_CHANNEL_LABEL) this.attachControlChannel(event.channel);
+    };
+    pc.onconnectionstatechange = () => {
+      this.addLog(`${kind} call with ${adminId}: ${pc.connectionState}`);
+    };
+
+    this.notify();
+    return call;
+  }
+
+  private attachControlChannel(channel: RTCDataChannel) {
+    channel.onmessage = (event) => {
+      const message = JSON.parse(event.data) as ControlMessage;
+      if (message.kind !== "command") return;
+      const ack: AckMessage = { kind: "ack", id: message.id, ok: true };
+      try {
+        const snapshot = this.applyCommand(message.command);
+        if (snapshot) ack.snapshot = snapshot;
+      } catch (err) {
+        ack.ok = false;
+        ack.error = (err as Error).message;
+      }
+      channel.send(JSON.stringify(ack));
+    };
+  }
+
+  private applyCommand(command: ControlCommand) {
+    this.addLog(`Control: ${JSON.stringify(command)}`);
+    switch (command.type) {
+      case "switch-camera":
+        this.media.camera = command.camera;
+        return null;
+      case "set-resolution":
+        this.media.setResolution(command.width, command.height);
+        return null;
+      case "set-frame-rate":
+        this.media.setFrameRate(command.fps);
+        return null;
+      case "set-night-mode":
+        this.media.nightMode = command.enabled;
+        return null;
+      case "snapshot":
+        return this.media.snapshot();
+    }
+  }
+
+  private closeCall(key: string, reason: string) {
+    const call = this.calls.get(key);
+    if (!call) return;
+    call.pc.close();
+    if (call.remoteAudio) call.remoteAudio.srcObject = null;
+    this.calls.delete(key);
+    this.addLog(`${reason} (${call.kind})`);
+  }
+
+  private sendSignal(kind: CallKind, to: string, data: SignalData) {
+    this.socket.emit(SIGNALING_CHANNELS[kind].signal, { to, data });
+  }
+
+  private position() {
+    return {
+      lat: ROUTE_CENTER.lat + ROUTE_RADIUS_DEG * Math.sin(this.routeAngle),
+      lon: ROUTE_CENTER.lon + ROUTE_RADIUS_DEG * 1.6 * Math.cos(this.routeAngle),
+    };
+  }
+
+  private sendTelemetry() {
+    this.routeAngle += 0.01;
+    const heading = (((90 - (this.routeAngle * 180) / Math.PI) % 360) + 360) % 360;
+    this.socket.emit("telemetry", {
+      ...this.position(),
+      timestamp: Date.now(),
+      speed: 45 + 10 * Math.sin(this.routeAngle * 5),
+      heading,
+      accuracy: 5,
+    });
+  }
+
+  private addLog(line: string) {
+    this.log = [`${new Date().toLocaleTimeString()} ${line}`, ...this.log].slice(0, MAX_LOG_LINES);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { SimulatedDashcam } from "./SimulatedDashcam";
+
+const ALERT_TYPES = ["collision", "harsh-braking", "driver-distraction"];
+
+const buttonStyle = { padding: "6px 12px", marginRight: "6px", marginBottom: "6px", fontSize: "13px" };
+
+const DashcamCard = ({ dashcam, onRemove }: { dashcam: SimulatedDashcam; onRemove: () => void }) => {
+  const previewRef = useRef<HTMLVideoElement | null>(null);
+  const [, setVersion] = useState(0);
+  const [alertType, setAlertType] = useState(ALERT_TYPES[0]);
+
+  useEffect(() => dashcam.onChange(() => setVersion((v) => v + 1)), [dashcam]);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = dashcam.media.stream;
+  }, [dashcam]);
+
+  const { identity, calls, pendingSos } = dashcam;
+
+  return (
+    <div style={{ marginBottom: "20px", padding: "15px", backgroundColor: "#f9f9f9", borderRadius: "8px" }}>
+      <h3 style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+        {identity.name || identity.deviceId}{" "}
+        <span style={{ fontSize: "12px", color: dashcam.connected ? "#4CAF50" : "#f44336" }}>
+          {dashcam.connected ? "connected" : "disconnected"}
+        </span>
+      </h3>
+      <div style={{ display: "flex", gap: "15px", alignItems: "flex-start" }}>
+        <video ref={previewRef} autoPlay playsInline muted style={{ width: "320px", borderRadius: "8px", backgroundColor: "#000" }} />
+        <div style={{ flex: 1 }}>
+          <div>
+            <button onClick={() => dashcam.startSos("audio")} disabled={!!pendingSos} style={buttonStyle}>
+              SOS audio call
+            </button>
+            <button onClick={() => dashcam.startSos("video")} disabled={!!pendingSos} style={buttonStyle}>
+              SOS video call
+            </button>
+            <button onClick={() => dashcam.cancelSos()} disabled={!pendingSos} style={buttonStyle}>
+              Cancel SOS
+            </button>
+          </div>
+          <div>
+            <select value={alertType} onChange={(e) => setAlertType(e.target.value)} style={{ marginRight: "6px" }}>
+              {ALERT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => dashcam.raiseAlert(alertType)} style={buttonStyle}>
+              Raise alert
+            </button>
+            <label style={{ fontSize: "13px", marginRight: "10px" }}>
+              <input type="checkbox" checked={dashcam.telemetryEnabled} onChange={(e) => dashcam.setTelemetry(e.target.checked)} />{" "}
+              Send GPS
+            </label>
+            <button onClick={onRemove} style={{ ...buttonStyle, color: "#f44336" }}>
+              Remove
+            </button>
+          </div>
+
+          <div style={{ fontSize: "13px", margin: "6px 0" }}>
+            {calls.size === 0
+              ? "No active calls"
+              : [...calls.values()].map((call) => (
+                  <div key={call.key}>
+                    {call.kind} call with {call.adminId} ({call.pc.connectionState}){" "}
+                    <button onClick={() => dashcam.hangUp(call.key)} style={{ fontSize: "12px" }}>
+                      Hang up
+                    </button>
+                  </div>
+                ))}
+          </div>
+
+          <div style={{ fontSize: "11px", fontFamily: "monospace", color: "#555", maxHeight: "120px", overflowY: "auto" }}>
+            {dashcam.log.map((line, index) => (
+              <div key={index}>{line}</div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SimulatorApp = () => {
+  const [dashcams, setDashcams] = useState<SimulatedDashcam[]>([]);
+  const [deviceId, setDeviceId] = useState("sim-001");
+  const [name, setName] = useState("Simulated Dashcam");
+  const [vehicle, setVehicle] = useState("Test Van");
+
+  const addDashcam = (e: FormEvent) => {
+    e.preventDefault();
+    if (!deviceId.trim() || dashcams.some((d) => d.identity.deviceId === deviceId.trim())) return;
+    const dashcam = new SimulatedDashcam({ deviceId: deviceId.trim(), name: name.trim() || undefined, vehicle: vehicle.trim() || undefined });
+    setDashcams((prev) => [...prev, dashcam]);
+    setDeviceId(`sim-${String(dashcams.length + 2).padStart(3, "0")}`);
+  };
+
+  const removeDashcam = (dashcam: SimulatedDashcam) => {
+    dashcam.destroy();
+    setDashcams((prev) => prev.filter((d) => d !== dashcam));
+  };
+
+  return (
+    <div style={{ padding: "20px", fontFamily: "Arial, sans-serif" }}>
+      <h1>Dashcam Simulator</h1>
+      <p style={{ fontSize: "13px", color: "#666" }}>
+        Simulated dashcams connect to the local signaling server. Open the admin panel in another tab and sign in
+        with any username ("admin" for the admin role).
+      </p>
+
+      <form onSubmit={addDashcam} style={{ marginBottom: "20px", fontSize: "13px" }}>
+        <input value={deviceId} onChange={(e) => setDeviceId(e.target.value)} placeholder="Device id" style={{ marginRight: "6px" }} />
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" style={{ marginRight: "6px" }} />
+        <input value={vehicle} onChange={(e) => setVehicle(e.target.value)} placeholder="Vehicle" style={{ marginRight: "6px" }} />
+        <button type="submit" style={buttonStyle}>
+          Add dashcam
+        </button>
+      </form>
+
+      {dashcams.map((dashcam) => (
+        <DashcamCard key={dashcam.identity.deviceId} dashcam={dashcam} onRemove={() => removeDashcam(dashcam)} />
+      ))}
+    </div>
+  );
+};
+
+export default SimulatorApp;
@@ -0,0 +1,112 @@
+import type { CameraPosition, SnapshotResult } from "../control/protocol";
+
+const TONE_HZ = 440;
+// Pulses the tone once a second so level meters on the admin side visibly move.
+const PULSE_HZ = 1;
+
+// A fake dashcam feed: a canvas animation and an oscillator, exposed as one MediaStream.
+export class SyntheticMedia {
+  readonly stream: MediaStream;
+  private canvas = document.createElement("canvas");
+  private ctx: CanvasRenderingContext2D;
+  private audioContext = new AudioContext();
+  private oscillators: OscillatorNode[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private frame = 0;
+  private label: string;
+  camera: CameraPosition = "front";
+  nightMode = false;
+
+  constructor(label: string, width = 1280, height = 720, fps = 30) {
+    this.label = label;
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.ctx = this.canvas.getContext("2d")!;
+    this.setFrameRate(fps);
+
+    const tone = this.audioContext.createOscillator();
+    tone.frequency.value = TONE_HZ;
+    const gain = this.audioContext.createGain();
+    gain.gain.value = 0.1;
+    const pulse = this.audioContext.createOscillator();
+    pulse.frequency.value = PULSE_HZ;
+    const pulseDepth = this.audioContext.createGain();
+    pulseDepth.gain.value = 0.1;
+    pulse.connect(pulseDepth).connect(gain.gain);
+    const destination = this.audioContext.createMediaStreamDestination();
+    tone.connect(gain).connect(destination);
+    tone.start();
+    pulse.start();
+    this.oscillators = [tone, pulse];
+
+    this.stream = new MediaStream([
+      ...this.canvas.captureStream().getVideoTracks(),
+      ...destination.stream.getAudioTracks(),
+    ]);
+  }
+
+  get width() {
+    return this.canvas.width;
+  }
+
+  get height() {
+    return this.canvas.height;
+  }
+
+  setResolution(width: number, height: number) {
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  setFrameRate(fps: number) {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(() => this.draw(), 1000 / fps);
+  }
+
+  snapshot(): SnapshotResult {
+    const dataUrl = this.canvas.toDataURL("image/jpeg", 0.9);
+    return {
+      mimeType: "image/jpeg",
+      imageBase64: dataUrl.slice(dataUrl.indexOf(",") + 1),
+      width: this.canvas.width,
+      height: this.canvas.height,
+    };
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.oscillators.forEach((oscillator) => oscillator.stop());
+    this.stream.getTracks().forEach((track) => track.stop());
+    this.audioContext.close();
+  }
+
+  // A road scrolling towards the camera, with an overlay of what the admin asked for.
+  private draw() {
+    const { ctx, canvas } = this;
+    const { width, height } = canvas;
+    this.frame += 1;
+
+    ctx.fillStyle = this.nightMode ? "#0b1a2e" : this.camera === "front" ? "#87ceeb" : "#b0bec5";
+    ctx.fillRect(0, 0, width, height / 2);
+    ctx.fillStyle = this.nightMode ? "#1b1b1b" : "#555";
+    ctx.fillRect(0, height / 2, width, height / 2);
+
+    ctx.strokeStyle = this.nightMode ? "#777" : "#fff";
+    ctx.lineWidth = Math.max(2, width / 200);
+    for (let i = 0; i < 8; i += 1) {
+      const t = ((i + (this.frame % 30) / 30) / 8) ** 2;
+      const y = height / 2 + t * (height / 2);
+      ctx.beginPath();
+      ctx.moveTo(width / 2, y);
+      ctx.lineTo(width / 2, y + t * (height / 12));
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = "#fff";
+    ctx.font = `${Math.round(height / 18)}px monospace`;
+    ctx.textBaseline = "top";
+    ctx.fillText(`${this.label} - ${this.camera} camera${this.nightMode ? " (night)" : ""}`, 20, 20);
+    ctx.fillText(`${new Date().toLocaleTimeString()}  ${width}x${height}  #${this.frame}`, 20, 20 + height / 15);
+  }
+}
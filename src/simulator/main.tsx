@@ -0,0 +1,10 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import SimulatorApp from './SimulatorApp'
+
+// Served by `npm run dev:sim` at /simulator.html; talks to the local signaling server only.
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <SimulatorApp />
+  </StrictMode>,
+)
@@ -0,0 +1,106 @@
+import type { SnapshotFormat } from ".";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type AnnotationTool = "arrow" | "box" | "text";
+
+export type Annotation =
+  | { type: "arrow" | "box"; from: Point; to: Point; color: string }
+  | { type: "text"; at: Point; text: string; color: string };
+
+const JPEG_QUALITY = 0.92;
+
+// Line widths and font sizes scale with the frame so annotations read the same on a
+// 640x360 stream as on a 4K one.
+const strokeWidth = (canvas: HTMLCanvasElement) => Math.max(2, Math.round(canvas.width / 320));
+const fontSize = (canvas: HTMLCanvasElement) => Math.max(14, Math.round(canvas.width / 40));
+
+// Copies the current frame at the stream's native resolution, not the element's display size.
+export const captureFrame = (video: HTMLVideoElement) => {
+  if (!video.videoWidth || !video.videoHeight) {
+    throw new Error("No video frame available yet");
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: Point, to: Point, headLength: number) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.stroke();
+};
+
+export const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+  const { canvas } = ctx;
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = strokeWidth(canvas);
+  ctx.lineCap = "round";
+
+  switch (annotation.type) {
+    case "arrow":
+      drawArrow(ctx, annotation.from, annotation.to, ctx.lineWidth * 5);
+      break;
+    case "box":
+      ctx.strokeRect(
+        annotation.from.x,
+        annotation.from.y,
+        annotation.to.x - annotation.from.x,
+        annotation.to.y - annotation.from.y
+      );
+      break;
+    case "text":
+      ctx.font = `bold ${fontSize(canvas)}px Arial, sans-serif`;
+      ctx.textBaseline = "top";
+      ctx.fillText(annotation.text, annotation.at.x, annotation.at.y);
+      break;
+  }
+};
+
+// Device and capture time in the bottom-left corner, on a dark band so it stays legible.
+export const drawWatermark = (ctx: CanvasRenderingContext2D, text: string) => {
+  const { canvas } = ctx;
+  const size = Math.round(fontSize(canvas) * 0.8);
+  const padding = Math.round(size / 2);
+  ctx.font = `${size}px Arial, sans-serif`;
+  ctx.textBaseline = "bottom";
+  const width = ctx.measureText(text).width;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(0, canvas.height - size - padding * 2, width + padding * 2, size + padding * 2);
+  ctx.fillStyle = "#fff";
+  ctx.fillText(text, padding, canvas.height - padding);
+};
+
+export const renderSnapshot = (
+  canvas: HTMLCanvasElement,
+  frame: HTMLCanvasElement,
+  annotations: Annotation[],
+  watermark: string
+) => {
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(frame, 0, 0);
+  annotations.forEach((annotation) => drawAnnotation(ctx, annotation));
+  drawWatermark(ctx, watermark);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: SnapshotFormat) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode snapshot"))),
+      `image/${format}`,
+      format === "jpeg" ? JPEG_QUALITY : undefined
+    );
+  });
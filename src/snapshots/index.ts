@@ -0,0 +1,46 @@
+import { deleteRecord, getAllRecords, putRecord } from "../storage/db";
+
+export type SnapshotFormat = "png" | "jpeg";
+
+export interface Snapshot {
+  id: string;
+  deviceId: string;
+  capturedAt: number;
+  width: number;
+  height: number;
+  mimeType: string;
+  // The annotated, watermarked image.
+  blob: Blob;
+}
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeSnapshots = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveSnapshot = async (snapshot: Snapshot) => {
+  await putRecord("snapshots", snapshot);
+  notify();
+};
+
+// Newest first.
+export const listSnapshots = async () => {
+  const snapshots = await getAllRecords<Snapshot>("snapshots");
+  return snapshots.sort((a, b) => b.capturedAt - a.capturedAt);
+};
+
+export const deleteSnapshot = async (id: string) => {
+  await deleteRecord("snapshots", id);
+  notify();
+};
+
+export const snapshotFileName = (deviceId: string, capturedAt: number, format: SnapshotFormat) => {
+  const timestamp = new Date(capturedAt).toISOString().replace(/[:.]/g, "-");
+  return `${deviceId}-snapshot-${timestamp}.${format === "jpeg" ? "jpg" : "png"}`;
+};
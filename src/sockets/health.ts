@@ -0,0 +1,112 @@
+import { subscribeAuth } from "../auth";
+import { createLogger } from "../logging";
+import { socket } from ".";
+
+const log = createLogger("socket");
+
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "offline";
+
+export interface ConnectionHealth {
+  status: ConnectionStatus;
+  // Current reconnect attempt, out of maxAttempts.
+  attempt: number;
+  maxAttempts: number;
+  latencyMs: number | null;
+  lastError: string | null;
+  // When the socket last went down; null while connected.
+  disconnectedAt: number | null;
+}
+
+const PING_INTERVAL_MS = 10_000;
+const PING_TIMEOUT_MS = 5000;
+
+let health: ConnectionHealth = {
+  status: socket.active ? "connecting" : "offline",
+  attempt: 0,
+  maxAttempts: socket.io.reconnectionAttempts(),
+  latencyMs: null,
+  lastError: null,
+  disconnectedAt: null,
+};
+const listeners = new Set<() => void>();
+let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+const update = (changes: Partial<ConnectionHealth>) => {
+  health = { ...health, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+// Round trip of an acknowledged `latency-ping`; the server only has to call the ack.
+const ping = () => {
+  const sentAt = performance.now();
+  socket.timeout(PING_TIMEOUT_MS).emit("latency-ping", (err: Error | null) => {
+    if (err) {
+      log.warn("Latency ping timed out");
+      update({ latencyMs: null });
+      return;
+    }
+    update({ latencyMs: Math.round(performance.now() - sentAt) });
+  });
+};
+
+const startPinging = () => {
+  stopPinging();
+  ping();
+  pingTimer = setInterval(ping, PING_INTERVAL_MS);
+};
+
+const stopPinging = () => {
+  if (pingTimer) clearInterval(pingTimer);
+  pingTimer = null;
+};
+
+socket.on("connect", () => {
+  update({ status: "connected", attempt: 0, lastError: null, disconnectedAt: null });
+  startPinging();
+});
+
+socket.on("disconnect", (reason) => {
+  log.warn("Socket disconnected:", reason);
+  stopPinging();
+  // `active` stays true while socket.io intends to reconnect on its own.
+  update({
+    status: socket.active ? "reconnecting" : "offline",
+    latencyMs: null,
+    disconnectedAt: health.disconnectedAt ?? Date.now(),
+  });
+});
+
+socket.on("connect_error", (err) => {
+  update({ status: socket.active ? health.status : "offline", lastError: err.message });
+});
+
+socket.io.on("reconnect_attempt", (attempt) => {
+  update({ status: "reconnecting", attempt });
+});
+
+socket.io.on("reconnect_failed", () => {
+  log.error(`Socket gave up reconnecting after ${health.maxAttempts} attempts`);
+  update({ status: "offline" });
+});
+
+// Logging in opens the socket (see ./index); show that as connecting until it succeeds.
+subscribeAuth(() => {
+  if (socket.active && !socket.connected && health.status === "offline") update({ status: "connecting" });
+});
+
+export const getConnectionHealth = () => health;
+
+export const subscribeConnectionHealth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Starts over with a fresh attempt budget, e.g. after socket.io has given up.
+export const reconnectSocket = () => {
+  log.info("Manual socket reconnect");
+  socket.disconnect();
+  update({ status: "connecting", attempt: 0, lastError: null, disconnectedAt: health.disconnectedAt ?? Date.now() });
+  socket.connect();
+};
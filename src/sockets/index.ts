@@ -1,13 +1,42 @@
 import { io } from "socket.io-client";
+import { getConfig } from "../config";
+import { getAuth, getHandshakeToken, subscribeAuth } from "../auth";
 
-export const socket = io("https://8b5127919bc7.ngrok-free.app", {
-  path: "/socket.io",
-  transports: ["websocket", "polling"],
-  secure: true,
+const { socketUrl, socketPath, socketTransports, socketHeaders } = getConfig();
+
+let isReconnecting = false;
+
+export const socket = io(socketUrl, {
+  path: socketPath,
+  transports: socketTransports,
+  secure: socketUrl.startsWith("https"),
+  autoConnect: false,
   reconnection: true,
   reconnectionAttempts: 10,
   reconnectionDelay: 1000,
-  extraHeaders: {
-    "ngrok-skip-browser-warning": "true",
+  extraHeaders: socketHeaders,
+  // Evaluated on every connection attempt, so reconnects present a refreshed token.
+  auth: (cb) => {
+    getHandshakeToken(isReconnecting).then((token) => cb({ token }));
   },
-});
\ No newline at end of file
+});
+
+socket.io.on("reconnect_attempt", () => {
+  isReconnecting = true;
+});
+
+socket.on("connect", () => {
+  isReconnecting = false;
+});
+
+// The socket only connects while an operator is logged in.
+const syncConnection = () => {
+  if (getAuth() && !socket.active) {
+    socket.connect();
+  } else if (!getAuth() && socket.active) {
+    socket.disconnect();
+  }
+};
+
+subscribeAuth(syncConnection);
+syncConnection();
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getConnectionHealth, subscribeConnectionHealth } from "./health";
+
+export const useConnectionHealth = () => useSyncExternalStore(subscribeConnectionHealth, getConnectionHealth);
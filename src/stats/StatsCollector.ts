@@ -0,0 +1,168 @@
+import { createLogger } from "../logging";
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay";
+
+export interface StatsSample {
+  timestamp: number;
+  bitrateKbps: number;
+  videoBitrateKbps: number;
+  audioBitrateKbps: number;
+  framesPerSecond: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  packetsLost: number;
+  jitterMs: number | null;
+  rttMs: number | null;
+  localCandidateType: CandidateType | null;
+  remoteCandidateType: CandidateType | null;
+  protocol: string | null;
+  videoCodec: string | null;
+  audioCodec: string | null;
+}
+
+// lib.dom does not type these two report entries.
+interface CandidateStats extends RTCStats {
+  candidateType?: CandidateType;
+  protocol?: string;
+}
+
+interface CodecStats extends RTCStats {
+  mimeType?: string;
+  clockRate?: number;
+}
+
+// Firefox flags the active pair itself instead of exposing a transport report.
+interface SelectableCandidatePairStats extends RTCIceCandidatePairStats {
+  selected?: boolean;
+}
+
+const log = createLogger("media");
+
+const DEFAULT_INTERVAL_MS = 1000;
+// Ten minutes of one-second samples.
+const MAX_SAMPLES = 600;
+
+const codecName = (codec?: CodecStats) => codec?.mimeType?.split("/")[1] ?? null;
+
+// The pair the transport is actually using. Old pairs from before an ICE restart can still
+// report as succeeded and nominated, so that heuristic is only a fallback.
+const findSelectedPair = (report: RTCStatsReport) => {
+  let selectedId: string | undefined;
+  let fallback: SelectableCandidatePairStats | undefined;
+  report.forEach((stat: RTCStats) => {
+    if (stat.type === "transport") {
+      selectedId ??= (stat as RTCTransportStats).selectedCandidatePairId;
+    } else if (stat.type === "candidate-pair") {
+      const pair = stat as SelectableCandidatePairStats;
+      if (pair.selected || (pair.state === "succeeded" && pair.nominated !== false && !fallback?.selected)) fallback = pair;
+    }
+  });
+  const selected = selectedId ? (report.get(selectedId) as RTCIceCandidatePairStats | undefined) : undefined;
+  return selected ?? fallback;
+};
+
+// Polls getStats() on one peer connection and keeps a bounded timeline of derived samples.
+export class StatsCollector {
+  samples: StatsSample[] = [];
+  private pc: RTCPeerConnection;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastBytes = new Map<string, { bytes: number; timestamp: number }>();
+  private listeners = new Set<(sample: StatsSample) => void>();
+
+  constructor(pc: RTCPeerConnection, intervalMs = DEFAULT_INTERVAL_MS) {
+    this.pc = pc;
+    this.intervalMs = intervalMs;
+  }
+
+  onSample(listener: (sample: StatsSample) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.collect().catch((err) => log.error("Stats collection failed:", err));
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private bitrateKbps(id: string, bytes: number | undefined, timestamp: number) {
+    if (bytes === undefined) return 0;
+    const previous = this.lastBytes.get(id);
+    this.lastBytes.set(id, { bytes, timestamp });
+    if (!previous || timestamp <= previous.timestamp) return 0;
+    return Math.round(((bytes - previous.bytes) * 8) / (timestamp - previous.timestamp));
+  }
+
+  private async collect() {
+    if (this.pc.connectionState === "closed") {
+      this.stop();
+      return;
+    }
+
+    const report = await this.pc.getStats();
+    const sample: StatsSample = {
+      timestamp: Date.now(),
+      bitrateKbps: 0,
+      videoBitrateKbps: 0,
+      audioBitrateKbps: 0,
+      framesPerSecond: null,
+      frameWidth: null,
+      frameHeight: null,
+      packetsLost: 0,
+      jitterMs: null,
+      rttMs: null,
+      localCandidateType: null,
+      remoteCandidateType: null,
+      protocol: null,
+      videoCodec: null,
+      audioCodec: null,
+    };
+
+    report.forEach((stat: RTCStats) => {
+      if (stat.type === "inbound-rtp") {
+        const inbound = stat as RTCInboundRtpStreamStats;
+        const kbps = this.bitrateKbps(inbound.id, inbound.bytesReceived, inbound.timestamp);
+        const codec = inbound.codecId ? (report.get(inbound.codecId) as CodecStats | undefined) : undefined;
+        sample.packetsLost += inbound.packetsLost ?? 0;
+
+        if (inbound.kind === "video") {
+          sample.videoBitrateKbps += kbps;
+          sample.framesPerSecond = inbound.framesPerSecond ?? sample.framesPerSecond;
+          sample.frameWidth = inbound.frameWidth ?? sample.frameWidth;
+          sample.frameHeight = inbound.frameHeight ?? sample.frameHeight;
+          sample.videoCodec = codecName(codec) ?? sample.videoCodec;
+          if (inbound.jitter !== undefined) sample.jitterMs = Math.round(inbound.jitter * 1000);
+        } else if (inbound.kind === "audio") {
+          sample.audioBitrateKbps += kbps;
+          sample.audioCodec = codecName(codec) ?? sample.audioCodec;
+          if (inbound.jitter !== undefined && sample.jitterMs === null) {
+            sample.jitterMs = Math.round(inbound.jitter * 1000);
+          }
+        }
+      }
+    });
+
+    const pair = findSelectedPair(report);
+    if (pair) {
+      if (pair.currentRoundTripTime !== undefined) sample.rttMs = Math.round(pair.currentRoundTripTime * 1000);
+      const local = report.get(pair.localCandidateId) as CandidateStats | undefined;
+      const remote = report.get(pair.remoteCandidateId) as CandidateStats | undefined;
+      sample.localCandidateType = local?.candidateType ?? null;
+      sample.remoteCandidateType = remote?.candidateType ?? null;
+      sample.protocol = local?.protocol ?? null;
+    }
+
+    sample.bitrateKbps = sample.videoBitrateKbps + sample.audioBitrateKbps;
+    this.samples = [...this.samples, sample].slice(-MAX_SAMPLES);
+    this.listeners.forEach((listener) => listener(sample));
+  }
+}
@@ -0,0 +1,33 @@
+import { toCsv } from "../utils/csv";
+import type { StatsSample } from "./StatsCollector";
+
+const CSV_COLUMNS: (keyof StatsSample & string)[] = [
+  "timestamp",
+  "bitrateKbps",
+  "videoBitrateKbps",
+  "audioBitrateKbps",
+  "framesPerSecond",
+  "frameWidth",
+  "frameHeight",
+  "packetsLost",
+  "jitterMs",
+  "rttMs",
+  "localCandidateType",
+  "remoteCandidateType",
+  "protocol",
+  "videoCodec",
+  "audioCodec",
+];
+
+export interface StatsExportMeta {
+  deviceId: string;
+  kind: string;
+}
+
+export const statsToJson = (samples: StatsSample[], meta: StatsExportMeta) =>
+  JSON.stringify({ ...meta, exportedAt: new Date().toISOString(), samples }, null, 2);
+
+export const statsToCsv = (samples: StatsSample[]) =>
+  toCsv(CSV_COLUMNS, samples, (column, value) =>
+    column === "timestamp" ? new Date(value as number).toISOString() : value
+  );
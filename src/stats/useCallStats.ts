@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import { StatsCollector, type StatsSample } from "./StatsCollector";
+
+// Runs a StatsCollector for as long as `pc` is set and exposes its timeline.
+export const useCallStats = (pc: RTCPeerConnection | null) => {
+  const [samples, setSamples] = useState<StatsSample[]>([]);
+
+  useEffect(() => {
+    setSamples([]);
+    if (!pc) return;
+
+    const collector = new StatsCollector(pc);
+    const unsubscribe = collector.onSample(() => setSamples(collector.samples));
+    collector.start();
+
+    return () => {
+      unsubscribe();
+      collector.stop();
+    };
+  }, [pc]);
+
+  return samples;
+};
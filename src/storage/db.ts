@@ -0,0 +1,61 @@
+// Local IndexedDB database shared by every feature that persists data in the browser.
+// Adding a store means adding it to STORES and bumping DB_VERSION.
+const DB_NAME = "dashcam-admin";
+const DB_VERSION = 4;
+
+export type StoreName = "recordings" | "recordingChunks" | "snapshots" | "calls";
+
+const STORES: StoreName[] = ["recordings", "recordingChunks", "snapshots", "calls"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: "id" });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const putRecord = <T extends { id: string }>(name: StoreName, record: T) =>
+  withStore(name, "readwrite", (store) => store.put(record));
+
+export const getRecord = <T>(name: StoreName, id: string) =>
+  withStore(name, "readonly", (store) => store.get(id) as IDBRequest<T | undefined>);
+
+export const getAllRecords = <T>(name: StoreName) =>
+  withStore(name, "readonly", (store) => store.getAll() as IDBRequest<T[]>);
+
+export const deleteRecord = (name: StoreName, id: string) =>
+  withStore(name, "readwrite", (store) => store.delete(id));
+
+export const getRecordsInRange = <T>(name: StoreName, range: IDBKeyRange) =>
+  withStore(name, "readonly", (store) => store.getAll(range) as IDBRequest<T[]>);
+
+export const deleteRecordsInRange = (name: StoreName, range: IDBKeyRange) =>
+  withStore(name, "readwrite", (store) => store.delete(range));
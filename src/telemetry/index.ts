@@ -0,0 +1,52 @@
+import { socket } from "../sockets";
+import type { TelemetryPoint } from "./types";
+
+// An hour of one-second fixes per device.
+const MAX_POINTS_PER_DEVICE = 3600;
+
+const history = new Map<string, TelemetryPoint[]>();
+const subscriptions = new Map<string, number>();
+const listeners = new Set<(point: TelemetryPoint) => void>();
+
+// Telemetry is kept for every subscribed device, independent of which panel is showing it,
+// so a recording can pick up the track for its own time range when it stops.
+socket.on("telemetry", (fix: TelemetryPoint) => {
+  if (!subscriptions.has(fix.deviceId)) return;
+  const point = { ...fix, receivedAt: Date.now() };
+  const points = history.get(point.deviceId) ?? [];
+  history.set(point.deviceId, [...points, point].slice(-MAX_POINTS_PER_DEVICE));
+  listeners.forEach((listener) => listener(point));
+});
+
+socket.on("connect", () => {
+  subscriptions.forEach((_, deviceId) => socket.emit("subscribe-telemetry", { deviceId }));
+});
+
+export const subscribeTelemetry = (deviceId: string) => {
+  const count = subscriptions.get(deviceId) ?? 0;
+  subscriptions.set(deviceId, count + 1);
+  if (count === 0) socket.emit("subscribe-telemetry", { deviceId });
+
+  return () => {
+    const remaining = (subscriptions.get(deviceId) ?? 1) - 1;
+    if (remaining > 0) {
+      subscriptions.set(deviceId, remaining);
+      return;
+    }
+    subscriptions.delete(deviceId);
+    socket.emit("unsubscribe-telemetry", { deviceId });
+  };
+};
+
+export const onTelemetry = (listener: (point: TelemetryPoint) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTelemetryHistory = (deviceId: string, from = 0, to = Infinity) =>
+  (history.get(deviceId) ?? []).filter((point) => {
+    const receivedAt = point.receivedAt ?? point.timestamp;
+    return receivedAt >= from && receivedAt <= to;
+  });
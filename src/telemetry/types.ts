@@ -0,0 +1,13 @@
+export interface TelemetryPoint {
+  deviceId: string;
+  timestamp: number;
+  lat: number;
+  lon: number;
+  // km/h
+  speed: number;
+  // Degrees clockwise from north.
+  heading: number;
+  accuracy?: number;
+  // Local clock time the admin panel received the fix; device clocks drift.
+  receivedAt?: number;
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { onTelemetry, subscribeTelemetry } from ".";
+import type { TelemetryPoint } from "./types";
+
+const MAX_TRAIL_POINTS = 1000;
+
+// Breadcrumb trail for `deviceId` since it was selected.
+export const useTelemetry = (deviceId: string | null) => {
+  const [trail, setTrail] = useState<TelemetryPoint[]>([]);
+
+  useEffect(() => {
+    setTrail([]);
+    if (!deviceId) return;
+
+    const unsubscribe = subscribeTelemetry(deviceId);
+    const stopListening = onTelemetry((point) => {
+      if (point.deviceId === deviceId) setTrail((prev) => [...prev, point].slice(-MAX_TRAIL_POINTS));
+    });
+
+    return () => {
+      stopListening();
+      unsubscribe();
+    };
+  }, [deviceId]);
+
+  return trail;
+};
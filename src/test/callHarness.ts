@@ -0,0 +1,31 @@
+import { CallRouter } from "../webrtc/CallRouter";
+import type { CallSessionOptions } from "../webrtc/CallSession";
+import { SIGNALING_CHANNELS, type CallKind, type SignalData } from "../webrtc/signaling";
+import { fakePeerConnectionFactory } from "./fakePeerConnection";
+import { FakeSocket } from "./fakeSocket";
+
+export const DASHCAM_SOCKET = "dashcam-socket";
+export const DEVICE_ID = "cam-1";
+
+// The dashcam's end of one call type on a fake socket: what it sends and what it was sent.
+export const dashcamSignaling = (socket: FakeSocket, kind: CallKind, deviceId = DEVICE_ID, from = DASHCAM_SOCKET) => {
+  const channel = SIGNALING_CHANNELS[kind];
+  return {
+    channel,
+    signal: (data: SignalData) => socket.receive(channel.signal, { from, deviceId, data }),
+    hangUp: () => socket.receive(channel.ended, { from, deviceId }),
+    sentSignals: () => socket.emittedPayloads(channel.signal) as { to: string; deviceId: string; data: SignalData }[],
+  };
+};
+
+// A CallRouter attached to a fake socket, whose sessions get fake peer connections and no ICE
+// servers unless a test passes its own.
+export const createCallRouter = () => {
+  const socket = new FakeSocket();
+  const router = new CallRouter(socket);
+  const detach = router.attach();
+  const peerConnections = fakePeerConnectionFactory();
+  const createSession = (options: Omit<CallSessionOptions, "socket">) =>
+    router.createSession({ getIceServers: async () => [], createPeerConnection: peerConnections.create, ...options });
+  return { socket, router, detach, peerConnections, createSession };
+};
@@ -0,0 +1,62 @@
+import { FakeMediaStream } from "./fakePeerConnection";
+
+class FakeAudioNode {
+  connect<T>(destination: T) {
+    return destination;
+  }
+
+  disconnect() {}
+}
+
+class FakeGainNode extends FakeAudioNode {
+  gain = { value: 1, setTargetAtTime: () => this.gain };
+}
+
+// Reads back silence.
+class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getFloatTimeDomainData() {}
+
+  getByteFrequencyData() {}
+}
+
+class FakeMediaStreamDestination extends FakeAudioNode {
+  stream = new FakeMediaStream() as unknown as MediaStream;
+}
+
+// Enough of the Web Audio graph for AudioPipeline; nothing is processed, and the output
+// stream is an empty stand-in a test can tell apart from the remote one.
+export class FakeAudioContext {
+  state: AudioContextState = "running";
+  currentTime = 0;
+
+  createMediaStreamSource() {
+    return new FakeAudioNode();
+  }
+
+  createAnalyser() {
+    return new FakeAnalyserNode();
+  }
+
+  createGain() {
+    return new FakeGainNode();
+  }
+
+  createMediaStreamDestination() {
+    return new FakeMediaStreamDestination();
+  }
+
+  async resume() {
+    this.state = "running";
+  }
+
+  async close() {
+    this.state = "closed";
+  }
+}
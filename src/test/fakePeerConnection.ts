@@ -0,0 +1,186 @@
+// Just enough of RTCPeerConnection for CallSession: descriptions and signaling state move as in
+// a browser, and tests drive ICE/connection state and incoming tracks by hand.
+export class FakeDataChannel {
+  readyState: RTCDataChannelState = "connecting";
+  label: string;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = "closed";
+  }
+}
+
+export class FakePeerConnection {
+  config: RTCConfiguration;
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  signalingState: RTCSignalingState = "stable";
+  iceConnectionState: RTCIceConnectionState = "new";
+  connectionState: RTCPeerConnectionState = "new";
+  addedTracks: MediaStreamTrack[] = [];
+  addedCandidates: (RTCIceCandidateInit | undefined)[] = [];
+  offers: RTCOfferOptions[] = [];
+  dataChannels: FakeDataChannel[] = [];
+  closed = false;
+
+  ontrack: ((event: RTCTrackEvent) => void) | null = null;
+  onicecandidate: ((event: { candidate: RTCIceCandidateInit | null }) => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+
+  constructor(config: RTCConfiguration) {
+    this.config = config;
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    this.addedTracks.push(track);
+  }
+
+  createDataChannel(label: string) {
+    const channel = new FakeDataChannel(label);
+    this.dataChannels.push(channel);
+    return channel;
+  }
+
+  getTransceivers() {
+    return [];
+  }
+
+  getSenders() {
+    return [];
+  }
+
+  async getStats() {
+    return new Map<string, RTCStats>();
+  }
+
+  async createOffer(options: RTCOfferOptions = {}) {
+    this.offers.push(options);
+    return { type: "offer" as const, sdp: `v=0\r\no=- ${this.offers.length} 2 IN IP4 127.0.0.1\r\n` };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = description;
+    this.signalingState = "have-local-offer";
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    if (this.signalingState !== "have-local-offer") throw new Error("No offer to answer");
+    this.remoteDescription = description;
+    this.signalingState = "stable";
+  }
+
+  async addIceCandidate(candidate?: RTCIceCandidateInit) {
+    if (!this.remoteDescription) throw new Error("No remote description");
+    this.addedCandidates.push(candidate);
+  }
+
+  close() {
+    this.closed = true;
+    this.signalingState = "closed";
+    this.connectionState = "closed";
+  }
+
+  setIceConnectionState(state: RTCIceConnectionState) {
+    this.iceConnectionState = state;
+    this.oniceconnectionstatechange?.();
+  }
+
+  setConnectionState(state: RTCPeerConnectionState) {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+
+  receiveTrack(kind: "audio" | "video") {
+    const track = { kind, id: `${kind}-track`, enabled: true, readyState: "live" } as MediaStreamTrack;
+    const stream = { id: "remote-stream" } as MediaStream;
+    const event = { track, streams: [stream] } as unknown as RTCTrackEvent;
+    this.ontrack?.(event);
+    return event;
+  }
+}
+
+// Hands CallSession a fake and keeps every one it created, newest last.
+export const fakePeerConnectionFactory = () => {
+  const created: FakePeerConnection[] = [];
+  const create = (config: RTCConfiguration) => {
+    const pc = new FakePeerConnection(config);
+    created.push(pc);
+    return pc as unknown as RTCPeerConnection;
+  };
+  return { created, create };
+};
+
+export interface FakeTrack {
+  kind: "audio" | "video";
+  id: string;
+  enabled: boolean;
+  stopped: boolean;
+  stop: () => void;
+}
+
+// A local stream whose tracks only record being stopped.
+export const fakeMediaStream = (kinds: ("audio" | "video")[]) => {
+  const tracks: FakeTrack[] = kinds.map((kind, index) => {
+    const track: FakeTrack = {
+      kind,
+      id: `local-${kind}-${index}`,
+      enabled: true,
+      stopped: false,
+      stop: () => {
+        track.stopped = true;
+      },
+    };
+    return track;
+  });
+  const stream = {
+    id: "local-stream",
+    getTracks: () => tracks,
+    getAudioTracks: () => tracks.filter((track) => track.kind === "audio"),
+    getVideoTracks: () => tracks.filter((track) => track.kind === "video"),
+  };
+  return { stream: stream as unknown as MediaStream, tracks };
+};
+
+let streamCount = 0;
+
+// Stands in for the MediaStream constructor, which jsdom does not have.
+export class FakeMediaStream {
+  id = `stream-${++streamCount}`;
+  private tracks: MediaStreamTrack[];
+
+  constructor(tracks: MediaStreamTrack[] = []) {
+    this.tracks = [...tracks];
+  }
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter((track) => track.kind === "audio");
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter((track) => track.kind === "video");
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    this.tracks.push(track);
+  }
+
+  removeTrack(track: MediaStreamTrack) {
+    this.tracks = this.tracks.filter((t) => t !== track);
+  }
+}
@@ -0,0 +1,69 @@
+import type { SignalingSocket } from "../webrtc/signaling";
+
+type Listener = (...args: never[]) => void;
+
+// In-memory stand-in for the socket.io client: records what is emitted and lets a test
+// deliver server events with `receive`.
+export class FakeSocket implements SignalingSocket {
+  connected = true;
+  emitted: { event: string; payload: unknown }[] = [];
+  private listeners = new Map<string, Set<Listener>>();
+
+  emit(event: string, payload?: unknown) {
+    this.emitted.push({ event, payload });
+    return this;
+  }
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event: string, listener?: Listener) {
+    if (listener) this.listeners.get(event)?.delete(listener);
+    else this.listeners.delete(event);
+    return this;
+  }
+
+  receive(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => (listener as (...values: unknown[]) => void)(...args));
+  }
+
+  listenerCount(event: string) {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  emittedPayloads(event: string) {
+    return this.emitted.filter((entry) => entry.event === event).map((entry) => entry.payload);
+  }
+}
+
+// The parts of the socket.io client the app itself touches besides signaling: connection
+// state, the manager's reconnect events and acknowledged emits (which never get an ack here).
+export class FakeClientSocket extends FakeSocket {
+  id = "admin-socket";
+  active = true;
+  io = {
+    on: () => this.io,
+    reconnectionAttempts: () => 10,
+  };
+
+  timeout() {
+    return { emit: (event: string, payload?: unknown) => this.emit(event, payload) };
+  }
+
+  connect() {
+    this.active = true;
+    this.connected = true;
+    this.receive("connect");
+    return this;
+  }
+
+  disconnect() {
+    this.active = false;
+    this.connected = false;
+    this.receive("disconnect", "io client disconnect");
+    return this;
+  }
+}
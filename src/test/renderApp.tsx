@@ -0,0 +1,132 @@
+import "fake-indexeddb/auto";
+import axios from "axios";
+import { act, StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { vi } from "vitest";
+import App from "../App";
+import { login, logout } from "../auth";
+import { socket } from "../sockets";
+import { getActiveCall } from "../webrtc/activeCall";
+import type { CallKind } from "../webrtc/signaling";
+import { dashcamSignaling, DEVICE_ID } from "./callHarness";
+import { FakeAudioContext } from "./fakeAudioContext";
+import { FakeMediaStream, FakePeerConnection, fakeMediaStream } from "./fakePeerConnection";
+import type { FakeClientSocket } from "./fakeSocket";
+
+// Test files that render the app replace the socket module first:
+//   vi.mock("./sockets", async () => ({ socket: new (await import("./test/fakeSocket")).FakeClientSocket() }));
+export const appSocket = socket as unknown as FakeClientSocket;
+
+// Tells React that updates are wrapped in act().
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Lets pending promises, timers and React updates settle; tests run on fake timers.
+export const settle = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+// Delivers something the app reacts to, a socket event or a peer connection change, inside act().
+export const trigger = async <T,>(deliver: () => T) => {
+  let result: T | undefined;
+  await act(async () => {
+    result = await deliver();
+  });
+  await settle();
+  return result as Awaited<T>;
+};
+
+const OPERATOR = { id: "op-1", name: "Test Operator", role: "admin" };
+
+// Signs in, selects a dashcam and renders the app the way main.tsx does, with fake WebRTC,
+// Web Audio and media devices underneath it.
+export const renderApp = async () => {
+  const peerConnections: FakePeerConnection[] = [];
+  vi.stubGlobal(
+    "RTCPeerConnection",
+    class extends FakePeerConnection {
+      constructor(config: RTCConfiguration) {
+        super(config);
+        peerConnections.push(this);
+      }
+    }
+  );
+  vi.stubGlobal("MediaStream", FakeMediaStream);
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  const getUserMedia = vi.fn(async (constraints: MediaStreamConstraints) =>
+    fakeMediaStream([...(constraints.audio ? ["audio" as const] : []), ...(constraints.video ? ["video" as const] : [])]).stream
+  );
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: {
+      getUserMedia,
+      enumerateDevices: async () => [],
+      addEventListener: () => undefined,
+      removeEventListener: () => undefined,
+    },
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue(undefined);
+
+  const loginResponse = { data: { token: "test-token", operator: OPERATOR } };
+  vi.spyOn(axios, "post").mockResolvedValueOnce(loginResponse as Awaited<ReturnType<typeof axios.post>>);
+  await login("admin", "secret");
+  localStorage.setItem("selected-device-id", DEVICE_ID);
+
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  await act(async () => {
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>
+    );
+  });
+
+  const button = (label: string) => {
+    const match = [...container.querySelectorAll("button")].find((b) => b.textContent?.trim() === label);
+    if (!match) throw new Error(`No "${label}" button`);
+    return match;
+  };
+
+  const click = async (label: string) => {
+    await act(async () => button(label).click());
+    await settle();
+  };
+
+  const status = () =>
+    [...container.querySelectorAll("div")].find((div) => div.firstElementChild?.textContent === "Status:")?.textContent?.replace("Status:", "").trim();
+
+  const media = (selector: "audio" | "video") => container.querySelector(selector) as (HTMLMediaElement & { srcObject: unknown }) | null;
+
+  // Drives the dashcam's side of a call through ready, offer and answer.
+  const answer = async (kind: CallKind) => {
+    const dashcam = dashcamSignaling(appSocket, kind);
+    await trigger(() => dashcam.signal({ type: "ready" }));
+    await trigger(() => dashcam.signal({ type: "answer", sdp: "v=0 answer" }));
+    return dashcam;
+  };
+
+  const unmount = async () => {
+    await act(async () => {
+      getActiveCall().session?.hangup();
+      root.unmount();
+    });
+    container.remove();
+    logout();
+    localStorage.removeItem("selected-device-id");
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  };
+
+  return {
+    container,
+    peerConnections,
+    pc: () => peerConnections[peerConnections.length - 1],
+    getUserMedia,
+    button,
+    click,
+    status,
+    audio: () => media("audio"),
+    video: () => media("video"),
+    answer,
+    unmount,
+  };
+};
@@ -0,0 +1,2 @@
+// Loggers read the console level when first imported; keep test output to real failures.
+localStorage.setItem("log-level", "error");
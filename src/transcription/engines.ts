@@ -0,0 +1,21 @@
+import { localTestEngine } from "./localEngine";
+import type { SpeechToTextEngine } from "./types";
+import { webSpeechEngine } from "./webSpeechEngine";
+
+const engines = new Map<string, SpeechToTextEngine>();
+
+// Deployments with a speech service register their adapter here at startup.
+export const registerSpeechEngine = (engine: SpeechToTextEngine) => {
+  engines.set(engine.id, engine);
+};
+
+export const listSpeechEngines = () => [...engines.values()];
+
+export const getSpeechEngine = (id: string) => engines.get(id) ?? null;
+
+registerSpeechEngine(webSpeechEngine);
+
+// The scripted engine invents text, keywords included, so it stays out of production builds.
+if (import.meta.env.DEV || import.meta.env.MODE === "simulator") {
+  registerSpeechEngine(localTestEngine);
+}
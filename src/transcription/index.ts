@@ -0,0 +1,148 @@
+import { raiseAlert } from "../alerts";
+import type { CallSession } from "../webrtc/CallSession";
+import { getSpeechEngine, listSpeechEngines } from "./engines";
+import { findKeywords } from "./keywords";
+import type { TranscriptionSettings, TranscriptSegment } from "./types";
+import { createLogger } from "../logging";
+
+const log = createLogger("media");
+
+const SETTINGS_KEY = "transcription-settings";
+
+const DEFAULT_SETTINGS: TranscriptionSettings = {
+  enabled: false,
+  engineId: "web-speech",
+  keywords: ["accident", "help"],
+};
+
+export interface LiveTranscript {
+  deviceId: string;
+  engineLabel: string;
+  segments: TranscriptSegment[];
+  // Text of the utterance in progress, replaced as the engine refines it.
+  interim: string;
+  error: string | null;
+}
+
+interface TranscriptionState {
+  settings: TranscriptionSettings;
+  live: LiveTranscript | null;
+}
+
+const loadSettings = (): TranscriptionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let state: TranscriptionState = { settings: loadSettings(), live: null };
+const listeners = new Set<() => void>();
+// Kept past the end of the call so the history record can pick the transcript up.
+const sessionTranscripts = new WeakMap<CallSession, TranscriptSegment[]>();
+let current: { session: CallSession; stream: MediaStream; stop: () => void } | null = null;
+
+const setState = (changes: Partial<TranscriptionState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+const updateLive = (changes: Partial<LiveTranscript>) => {
+  if (state.live) setState({ live: { ...state.live, ...changes } });
+};
+
+export const getTranscriptionState = () => state;
+
+export const subscribeTranscription = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateTranscriptionSettings = (settings: TranscriptionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  setState({ settings });
+};
+
+export const getSessionTranscript = (session: CallSession) => sessionTranscripts.get(session) ?? [];
+
+export const stopTranscription = () => {
+  current?.stop();
+  current = null;
+  setState({ live: null });
+};
+
+// Transcribes the remote side of an audio call until it ends. Keywords are read from the
+// current settings on every utterance, so edits apply mid-call. A redial brings a new remote
+// stream, and the engine is restarted on it; the transcript so far is kept.
+export const startTranscription = (session: CallSession, stream: MediaStream) => {
+  const { settings } = state;
+  if (!settings.enabled || session.kind !== "audio") return;
+  if (current?.session === session && current.stream === stream) return;
+  stopTranscription();
+
+  const engine = getSpeechEngine(settings.engineId) ?? listSpeechEngines()[0];
+  const live: LiveTranscript = {
+    deviceId: session.deviceId,
+    engineLabel: engine?.label ?? settings.engineId,
+    segments: getSessionTranscript(session),
+    interim: "",
+    error: null,
+  };
+  if (!engine?.isSupported()) {
+    log.warn("Speech engine unavailable:", settings.engineId);
+    setState({ live: { ...live, error: "Speech-to-text engine is not available in this browser" } });
+    return;
+  }
+  setState({ live });
+  sessionTranscripts.set(session, live.segments);
+
+  const handleSegment = (text: string) => {
+    const keywords = findKeywords(text, state.settings.keywords);
+    const segment: TranscriptSegment = { id: crypto.randomUUID(), at: Date.now(), text, keywords };
+    const segments = [...getSessionTranscript(session), segment];
+    sessionTranscripts.set(session, segments);
+    updateLive({ segments, interim: "" });
+
+    if (keywords.length > 0) {
+      log.info("Keyword heard:", keywords, session.deviceId);
+      raiseAlert({
+        deviceId: session.deviceId,
+        type: "spoken-keyword",
+        message: `Heard "${keywords.join('", "')}": ${text}`,
+      });
+    }
+  };
+
+  const stopEngine = engine.start(
+    stream,
+    ({ text, final }) => {
+      if (current?.session !== session) return;
+      const trimmed = text.trim();
+      if (!final) updateLive({ interim: trimmed });
+      else if (trimmed) handleSegment(trimmed);
+    },
+    (err) => {
+      log.error("Speech recognition failed:", err);
+      updateLive({ error: `Transcription failed: ${err.message}` });
+    }
+  );
+  const unsubscribeState = session.on("state", (callState) => {
+    if (callState === "ended" || callState === "failed") stopTranscription();
+  });
+  current = {
+    session,
+    stream,
+    stop: () => {
+      unsubscribeState();
+      stopEngine();
+    },
+  };
+  log.info("Transcription started with", engine.label);
+};
+
+export const transcriptToText = (segments: TranscriptSegment[]) =>
+  segments.map((segment) => `[${new Date(segment.at).toLocaleTimeString()}] ${segment.text}`).join("\n");
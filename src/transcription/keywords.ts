@@ -0,0 +1,29 @@
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole words only, so "help" does not fire on "helpful".
+const keywordPattern = (keywords: string[]) => {
+  const terms = keywords.map((keyword) => keyword.trim()).filter(Boolean).map(escapeRegExp);
+  return terms.length > 0 ? new RegExp(`\\b(${terms.join("|")})\\b`, "gi") : null;
+};
+
+// The configured keywords that occur in `text`, in configured spelling.
+export const findKeywords = (text: string, keywords: string[]) => {
+  const pattern = keywordPattern(keywords);
+  if (!pattern) return [];
+  const found = new Set([...text.matchAll(pattern)].map((match) => match[0].toLowerCase()));
+  return keywords.filter((keyword) => found.has(keyword.trim().toLowerCase()));
+};
+
+// Splits `text` into plain and keyword parts for highlighting.
+export const splitByKeywords = (text: string, keywords: string[]) => {
+  const pattern = keywordPattern(keywords);
+  if (!pattern) return [{ text, keyword: false }];
+  // A capturing group makes split() keep the matches at odd indexes.
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, keyword: index % 2 === 1 }))
+    .filter((part) => part.text);
+};
+
+export const parseKeywords = (value: string) =>
+  [...new Set(value.split(",").map((keyword) => keyword.trim().toLowerCase()).filter(Boolean))];
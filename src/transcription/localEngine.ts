@@ -0,0 +1,67 @@
+import { measureBlock, toDbfs } from "../media/audioLevels";
+import type { SpeechToTextEngine } from "./types";
+
+// Offline stand-in for a real recogniser. It detects when the remote side is talking and
+// "transcribes" each utterance as the next line of a fixed script, so the transcript,
+// keyword highlighting and alerts can be exercised without a speech service.
+const SCRIPT = [
+  "Driver here, can you hear me",
+  "Traffic is heavy on the ring road",
+  "There has been an accident ahead of me",
+  "I am pulling over to check the vehicle",
+  "I need help with the next delivery address",
+  "Everything is fine, continuing the route",
+];
+
+const SPEECH_THRESHOLD_DB = -45;
+const POLL_INTERVAL_MS = 100;
+const WORD_INTERVAL_MS = 300;
+// Silence this long ends an utterance.
+const END_OF_UTTERANCE_MS = 700;
+// Continuous sound (a tone, engine noise) is still cut into separate lines.
+const MAX_UTTERANCE_MS = 5000;
+
+export const localTestEngine: SpeechToTextEngine = {
+  id: "local-test",
+  label: "Local test engine (offline, scripted)",
+  isSupported: () => typeof AudioContext !== "undefined",
+  start: (stream, onResult) => {
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+    context.resume().catch(() => undefined);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let line = 0;
+    let utteranceStartedAt: number | null = null;
+    let lastVoiceAt = 0;
+
+    const timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const now = performance.now();
+      if (toDbfs(measureBlock(samples).rms) >= SPEECH_THRESHOLD_DB) {
+        lastVoiceAt = now;
+        utteranceStartedAt ??= now;
+      }
+      if (utteranceStartedAt === null) return;
+
+      const words = SCRIPT[line % SCRIPT.length].split(" ");
+      if (now - lastVoiceAt >= END_OF_UTTERANCE_MS || now - utteranceStartedAt >= MAX_UTTERANCE_MS) {
+        onResult({ text: words.join(" "), final: true });
+        line += 1;
+        utteranceStartedAt = null;
+        return;
+      }
+      const heard = Math.min(words.length, 1 + Math.floor((now - utteranceStartedAt) / WORD_INTERVAL_MS));
+      onResult({ text: words.slice(0, heard).join(" "), final: false });
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      source.disconnect();
+      context.close().catch(() => undefined);
+    };
+  },
+};
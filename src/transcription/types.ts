@@ -0,0 +1,29 @@
+// One finished utterance. `keywords` holds the configured keywords it matched.
+export interface TranscriptSegment {
+  id: string;
+  at: number;
+  text: string;
+  keywords: string[];
+}
+
+// Interim results are replaced by the next result; a final one closes the utterance.
+export interface SpeechResult {
+  text: string;
+  final: boolean;
+}
+
+// Adapter for a speech-to-text backend. Engines get the raw remote stream and report text
+// back; how they recognise it (locally, over a socket, via a cloud API) is up to them.
+export interface SpeechToTextEngine {
+  id: string;
+  label: string;
+  isSupported: () => boolean;
+  // Returns a function that stops recognition and releases whatever the engine opened.
+  start: (stream: MediaStream, onResult: (result: SpeechResult) => void, onError: (error: Error) => void) => () => void;
+}
+
+export interface TranscriptionSettings {
+  enabled: boolean;
+  engineId: string;
+  keywords: string[];
+}
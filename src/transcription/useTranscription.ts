@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getTranscriptionState, subscribeTranscription } from ".";
+
+export const useTranscription = () => useSyncExternalStore(subscribeTranscription, getTranscriptionState);
@@ -0,0 +1,83 @@
+import type { SpeechToTextEngine } from "./types";
+
+// lib.dom types the result objects but not the recogniser itself.
+interface RecognitionResultEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface RecognitionErrorEvent extends Event {
+  error: string;
+}
+
+interface Recognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: (audioTrack?: MediaStreamTrack) => void;
+  abort: () => void;
+}
+
+interface RecognitionConstructor {
+  new (): Recognition;
+  available?: unknown;
+}
+
+// Errors that only mean the recogniser went idle; it is restarted by `onend`.
+const BENIGN_ERRORS = ["no-speech", "aborted"];
+
+const recognitionConstructor = () => {
+  const scope = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+};
+
+// The browser's own recogniser, fed the dashcam's audio track. Older implementations ignore
+// the track and listen to the operator's microphone instead, so the engine is only offered
+// where the API is recent enough to take one; the static `available()` arrived alongside it.
+export const webSpeechEngine: SpeechToTextEngine = {
+  id: "web-speech",
+  label: "Browser speech recognition",
+  isSupported: () => {
+    const Recognition = recognitionConstructor();
+    return !!Recognition && "available" in Recognition;
+  },
+  start: (stream, onResult, onError) => {
+    const Recognition = recognitionConstructor();
+    const [track] = stream.getAudioTracks();
+    if (!Recognition || !track) {
+      onError(new Error(Recognition ? "Call has no audio track" : "Speech recognition is not available"));
+      return () => undefined;
+    }
+
+    let stopped = false;
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = navigator.language;
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i += 1) {
+        const result = event.results[i];
+        onResult({ text: result[0].transcript, final: result.isFinal });
+      }
+    };
+    recognition.onerror = (event) => {
+      if (BENIGN_ERRORS.includes(event.error)) return;
+      stopped = true;
+      onError(new Error(event.error));
+    };
+    // Recognisers stop on their own after a stretch of silence; keep listening until the call ends.
+    recognition.onend = () => {
+      if (!stopped) recognition.start(track);
+    };
+    recognition.start(track);
+
+    return () => {
+      stopped = true;
+      recognition.onend = null;
+      recognition.abort();
+    };
+  },
+};
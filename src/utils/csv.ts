@@ -0,0 +1,15 @@
+// Spreadsheets run a text cell starting with one of these as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  // Only free text is neutralised; a negative number must stay a number.
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(columns: (keyof T & string)[], rows: T[], format?: (column: keyof T, value: T[keyof T]) => unknown) =>
+  [
+    columns.join(","),
+    ...rows.map((row) => columns.map((column) => escapeCell(format ? format(column, row[column]) : row[column])).join(",")),
+  ].join("\n");
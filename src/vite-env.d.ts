@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SOCKET_URL?: string;
+  readonly VITE_SOCKET_PATH?: string;
+  readonly VITE_SOCKET_TRANSPORTS?: string;
+  readonly VITE_SOCKET_HEADERS?: string;
+  readonly VITE_ICE_SERVERS?: string;
+  readonly VITE_TURN_CREDENTIALS_URL?: string;
+  readonly VITE_AUTH_URL?: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_ATTRIBUTION?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
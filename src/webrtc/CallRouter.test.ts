@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createCallRouter } from "../test/callHarness";
+import { SIGNALING_CHANNELS } from "./signaling";
+
+const setup = () => {
+  const { socket, router, detach, createSession } = createCallRouter();
+  const dial = async (deviceId: string) => {
+    const session = createSession({ kind: "video", deviceId });
+    await session.start();
+    return session;
+  };
+  const ready = (from: string, deviceId?: string) =>
+    socket.receive(SIGNALING_CHANNELS.video.signal, { from, deviceId, data: { type: "ready" } });
+  return { socket, router, detach, dial, ready };
+};
+
+describe("CallRouter", () => {
+  it("routes a ready to the session for the device it names", async () => {
+    const { dial, ready } = setup();
+    const first = await dial("cam-1");
+    const second = await dial("cam-2");
+
+    ready("socket-2", "cam-2");
+
+    expect(second.remoteSocketId).toBe("socket-2");
+    expect(first.remoteSocketId).toBeNull();
+  });
+
+  it("does not hand a ready for an unknown device to another device's session", async () => {
+    const { dial, ready } = setup();
+    const session = await dial("cam-1");
+
+    ready("socket-9", "cam-9");
+
+    expect(session.remoteSocketId).toBeNull();
+    expect(session.state).toBe("requesting");
+  });
+
+  it("gives a ready without a device id to the oldest waiting session", async () => {
+    const { dial, ready } = setup();
+    const first = await dial("cam-1");
+    const second = await dial("cam-2");
+
+    ready("socket-1");
+
+    expect(first.remoteSocketId).toBe("socket-1");
+    expect(second.remoteSocketId).toBeNull();
+  });
+
+  it("ends only the session whose dashcam hung up", async () => {
+    const { socket, dial, ready } = setup();
+    const first = await dial("cam-1");
+    const second = await dial("cam-2");
+    ready("socket-1", "cam-1");
+    ready("socket-2", "cam-2");
+
+    socket.receive(SIGNALING_CHANNELS.video.ended, { from: "socket-2" });
+
+    expect(second.state).toBe("ended");
+    expect(first.isActive).toBe(true);
+  });
+
+  it("removes its socket listeners when detached", () => {
+    const { socket, detach } = setup();
+    expect(socket.listenerCount(SIGNALING_CHANNELS.audio.signal)).toBe(1);
+
+    detach();
+
+    expect(socket.listenerCount(SIGNALING_CHANNELS.audio.signal)).toBe(0);
+    expect(socket.listenerCount(SIGNALING_CHANNELS.video.ended)).toBe(0);
+    expect(socket.listenerCount("connect")).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { CallSession, type CallSessionOptions } from "./CallSession";
+import {
+  SIGNALING_CHANNELS,
+  type CallEndedPayload,
+  type CallKind,
+  type SignalEnvelope,
+  type SignalingSocket,
+} from "./signaling";
+import { createLogger } from "../logging";
+
+const log = createLogger("signaling");
+
+// Owns the socket listeners for every call type and hands each signal to the session it
+// belongs to. Sessions are matched by the dashcam's socket id once known; a `ready` from an
+// unknown socket goes to the session for the device it names, or, when it names none, to the
+// oldest session still waiting for its dashcam.
+export class CallRouter {
+  private socket: SignalingSocket;
+  private sessions: CallSession[] = [];
+  private sessionListeners = new Set<(session: CallSession) => void>();
+
+  constructor(socket: SignalingSocket) {
+    this.socket = socket;
+  }
+
+  createSession(options: Omit<CallSessionOptions, "socket">) {
+    const session = new CallSession({ ...options, socket: this.socket });
+    this.sessions.push(session);
+    this.sessionListeners.forEach((listener) => listener(session));
+
+    const unsubscribe = session.on("state", (state) => {
+      if (state === "ended" || state === "failed") {
+        unsubscribe();
+        this.sessions = this.sessions.filter((s) => s !== session);
+      }
+    });
+
+    return session;
+  }
+
+  // Called for every new session, in single-call and wall mode alike, before it starts.
+  onSessionCreated(listener: (session: CallSession) => void) {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  get activeSessions() {
+    return this.sessions;
+  }
+
+  attach() {
+    const detachers = (Object.keys(SIGNALING_CHANNELS) as CallKind[]).map((kind) => {
+      const channel = SIGNALING_CHANNELS[kind];
+
+      const handleSignal = ({ from, deviceId, data }: SignalEnvelope) => {
+        const session = this.findSession(kind, from, deviceId, data.type === "ready");
+        if (!session) {
+          log.warn(`No ${kind} session for signal from:`, from);
+          return;
+        }
+        session.handleSignal(from, data);
+      };
+
+      const handleEnded = (payload?: CallEndedPayload) => {
+        const candidates = this.sessions.filter((s) => s.kind === kind);
+        const session =
+          candidates.find((s) => payload?.from && s.remoteSocketId === payload.from) ??
+          candidates.find((s) => payload?.deviceId && s.deviceId === payload.deviceId) ??
+          (candidates.length === 1 && !payload?.from && !payload?.deviceId ? candidates[0] : undefined);
+        session?.handleRemoteEnded();
+      };
+
+      this.socket.on(channel.signal, handleSignal);
+      this.socket.on(channel.ended, handleEnded);
+
+      return () => {
+        this.socket.off(channel.signal, handleSignal);
+        this.socket.off(channel.ended, handleEnded);
+      };
+    });
+
+    // Sessions decide for themselves whether a socket reconnect needs a redial.
+    const handleConnect = () => {
+      this.sessions.forEach((session) => session.handleSignalingReconnect());
+    };
+    this.socket.on("connect", handleConnect);
+
+    return () => {
+      detachers.forEach((detach) => detach());
+      this.socket.off("connect", handleConnect);
+    };
+  }
+
+  private findSession(kind: CallKind, from: string, deviceId: string | undefined, isReady: boolean) {
+    const ofKind = this.sessions.filter((s) => s.kind === kind);
+    const bound = ofKind.find((s) => s.remoteSocketId === from);
+    if (bound || !isReady) return bound;
+
+    // A `ready` naming a device no session waits for must not land in another device's tile.
+    const awaiting = ofKind.filter((s) => s.isAwaitingReady);
+    return deviceId === undefined ? awaiting[0] : awaiting.find((s) => s.deviceId === deviceId);
+  }
+}
@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCallRouter, dashcamSignaling, DASHCAM_SOCKET, DEVICE_ID } from "../test/callHarness";
+import { fakeMediaStream } from "../test/fakePeerConnection";
+import { MAX_RECONNECT_ATTEMPTS, type CallSessionOptions, type CallState } from "./CallSession";
+import type { CallKind, SignalData } from "./signaling";
+import { VIDEO_QUALITY_PROFILES } from "./videoQuality";
+
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+const setup = (kind: CallKind, options: Partial<CallSessionOptions> = {}) => {
+  const { socket, router, peerConnections, createSession } = createCallRouter();
+  const media = fakeMediaStream(["audio"]);
+  const session = createSession({
+    kind,
+    deviceId: DEVICE_ID,
+    getUserMedia: async () => media.stream,
+    ...options,
+  });
+  const states: CallState[] = [];
+  session.on("state", (state) => states.push(state));
+
+  const { channel, signal, hangUp, sentSignals } = dashcamSignaling(socket, kind);
+  const pc = () => peerConnections.created[peerConnections.created.length - 1];
+
+  // Dials and answers the first offer, leaving the call negotiating.
+  const negotiate = async () => {
+    await session.start();
+    signal({ type: "ready" });
+    await flush();
+    signal({ type: "answer", sdp: "v=0 answer" });
+    await flush();
+  };
+
+  const connect = async () => {
+    await negotiate();
+    pc().setIceConnectionState("connected");
+    pc().setConnectionState("connected");
+  };
+
+  return { socket, router, session, states, channel, signal, hangUp, sentSignals, pc, media, negotiate, connect };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("CallSession call flow", () => {
+  it("dials, negotiates, exchanges candidates, receives a track and hangs up", async () => {
+    const { socket, router, session, states, channel, signal, sentSignals, pc, media } = setup("audio");
+    const tracks: RTCTrackEvent[] = [];
+    session.on("track", (event) => tracks.push(event));
+
+    await session.start();
+    expect(socket.emittedPayloads(channel.start)).toEqual([{ deviceId: DEVICE_ID }]);
+    expect(session.state).toBe("requesting");
+
+    signal({ type: "ready" });
+    await flush();
+    expect(session.state).toBe("negotiating");
+    expect(session.remoteSocketId).toBe(DASHCAM_SOCKET);
+    expect(pc().addedTracks).toEqual(media.tracks);
+    expect(sentSignals()).toEqual([{ to: DASHCAM_SOCKET, deviceId: DEVICE_ID, data: pc().localDescription }]);
+    expect(pc().localDescription?.type).toBe("offer");
+
+    signal({ type: "answer", sdp: "v=0 answer" });
+    await flush();
+    expect(pc().remoteDescription).toEqual({ type: "answer", sdp: "v=0 answer" });
+
+    signal({ candidate: "candidate:1 1 udp 2122260223 192.168.1.20 54321 typ host" });
+    await flush();
+    expect(pc().addedCandidates).toHaveLength(1);
+    expect(pc().addedCandidates[0]?.candidate).toBe("candidate:1 1 udp 2122260223 192.168.1.20 54321 typ host");
+
+    pc().onicecandidate?.({
+      candidate: { candidate: "candidate:2 1 udp 1686052607 203.0.113.5 40000 typ srflx", sdpMid: "0", sdpMLineIndex: 0 },
+    });
+    expect(sentSignals().at(-1)?.data).toMatchObject({
+      candidate: { candidate: "candidate:2 1 udp 1686052607 203.0.113.5 40000 typ srflx", sdpMid: "0" },
+    });
+
+    const trackEvent = pc().receiveTrack("audio");
+    expect(tracks).toEqual([trackEvent]);
+
+    pc().setConnectionState("connected");
+    expect(session.state).toBe("connected");
+
+    const connection = pc();
+    session.hangup();
+    expect(socket.emittedPayloads(channel.end)).toEqual([{ to: DASHCAM_SOCKET, deviceId: DEVICE_ID }]);
+    expect(session.state).toBe("ended");
+    expect(session.endReason).toBe("hangup");
+    expect(connection.closed).toBe(true);
+    expect(media.tracks.every((track) => track.stopped)).toBe(true);
+    expect(router.activeSessions).toEqual([]);
+    expect(states).toEqual(["requesting", "negotiating", "connected", "ended"]);
+  });
+
+  it("queues candidates that arrive before the answer and applies them once it is set", async () => {
+    const { session, signal, pc } = setup("video");
+    await session.start();
+    signal({ type: "ready" });
+    await flush();
+
+    signal({ candidate: "a=candidate:1 1 udp 2122260223 192.168.1.20 54321 typ host" });
+    signal({ candidate: { candidate: "candidate:2 1 udp 1686052607 203.0.113.5 40000 typ srflx", sdpMid: "1" } });
+    signal({ candidate: null });
+    await flush();
+    expect(pc().addedCandidates).toEqual([]);
+
+    signal({ type: "answer", sdp: "v=0 answer" });
+    await flush();
+
+    expect(pc().addedCandidates).toEqual([
+      {
+        candidate: "candidate:1 1 udp 2122260223 192.168.1.20 54321 typ host",
+        sdpMid: "0",
+        sdpMLineIndex: 0,
+        usernameFragment: undefined,
+      },
+      {
+        candidate: "candidate:2 1 udp 1686052607 203.0.113.5 40000 typ srflx",
+        sdpMid: "1",
+        sdpMLineIndex: null,
+        usernameFragment: undefined,
+      },
+      // End-of-candidates goes to addIceCandidate() without an argument.
+      undefined,
+    ]);
+
+    signal({ candidate: "candidate:3 1 udp 100 10.0.0.1 5000 typ host" });
+    await flush();
+    expect(pc().addedCandidates).toHaveLength(4);
+  });
+
+  it("drops a malformed candidate without ending the call", async () => {
+    const { session, signal, pc, negotiate } = setup("video");
+    await negotiate();
+
+    signal({ candidate: "candidate:1 1 udp 1 192.168.1.20 54321 typ nonsense" });
+    await flush();
+
+    expect(pc().addedCandidates).toEqual([]);
+    expect(session.state).toBe("negotiating");
+  });
+
+  it("ends when the dashcam hangs up", async () => {
+    const { socket, session, channel, pc, connect, hangUp } = setup("video");
+    await connect();
+    const connection = pc();
+
+    hangUp();
+
+    expect(session.state).toBe("ended");
+    expect(session.endReason).toBe("remote");
+    expect(connection.closed).toBe(true);
+    expect(socket.emittedPayloads(channel.end)).toEqual([]);
+  });
+
+  it("recovers from an ICE failure with an ICE restart on the same connection", async () => {
+    const { session, states, signal, sentSignals, pc, connect } = setup("video");
+    await connect();
+    const connection = pc();
+
+    connection.setIceConnectionState("failed");
+    await flush();
+    expect(session.state).toBe("reconnecting");
+    expect(connection.offers.at(-1)).toMatchObject({ iceRestart: true });
+    expect(sentSignals().at(-1)?.data).toEqual(connection.localDescription);
+
+    signal({ type: "answer", sdp: "v=0 restart answer" });
+    await flush();
+    connection.setIceConnectionState("connected");
+    connection.setConnectionState("connected");
+
+    expect(pc()).toBe(connection);
+    expect(session.state).toBe("connected");
+    expect(session.reconnectAttempt).toBe(0);
+    expect(states.slice(-2)).toEqual(["reconnecting", "connected"]);
+
+    // The next attempt was cancelled when the restart connected.
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(connection.offers).toHaveLength(2);
+  });
+
+  it("fails and tells the dashcam once every ICE restart attempt is used up", async () => {
+    const { socket, session, channel, pc, connect } = setup("video");
+    await connect();
+
+    pc().setIceConnectionState("failed");
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(session.state).toBe("failed");
+    expect(session.endReason).toBe("ice-failed");
+    expect(pc().offers.filter((offer) => offer.iceRestart)).toHaveLength(MAX_RECONNECT_ATTEMPTS);
+    expect(socket.emittedPayloads(channel.ended)).toEqual([{ to: DASHCAM_SOCKET, deviceId: DEVICE_ID }]);
+  });
+
+  it("gives up on recovery when the signaling server never comes back", async () => {
+    const { socket, session, pc, connect } = setup("video");
+    await connect();
+    socket.connected = false;
+
+    pc().setConnectionState("failed");
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(pc().offers).toHaveLength(1);
+    expect(session.state).toBe("failed");
+    expect(session.endReason).toBe("connection-failed");
+  });
+
+  it("redials after the signaling socket reconnects mid-recovery", async () => {
+    const { socket, session, channel, pc, connect } = setup("video");
+    await connect();
+    const connection = pc();
+    socket.connected = false;
+    connection.setIceConnectionState("failed");
+    await flush();
+
+    socket.connected = true;
+    socket.receive("connect");
+
+    expect(connection.closed).toBe(true);
+    expect(session.state).toBe("requesting");
+    expect(session.remoteSocketId).toBeNull();
+    expect(socket.emittedPayloads(channel.start)).toHaveLength(2);
+  });
+
+  it("cancels a call hung up while the microphone prompt is open", async () => {
+    let grant: (stream: MediaStream) => void = () => undefined;
+    const media = fakeMediaStream(["audio"]);
+    const { socket, session, channel } = setup("audio", {
+      getUserMedia: () => new Promise((resolve) => (grant = resolve)),
+    });
+
+    const starting = session.start();
+    session.hangup();
+    grant(media.stream);
+    await starting;
+
+    expect(session.state).toBe("ended");
+    expect(socket.emittedPayloads(channel.start)).toEqual([]);
+    expect(media.tracks.every((track) => track.stopped)).toBe(true);
+    expect(session.localStream).toBeNull();
+  });
+});
+
+describe("CallSession video quality", () => {
+  const offersSent = (sentSignals: () => { data: SignalData }[]) =>
+    sentSignals().filter(({ data }) => data.type === "offer").length;
+
+  it("applies a profile chosen while the first offer is in flight once the call connects", async () => {
+    const { session, signal, sentSignals, pc } = setup("video", { videoQuality: VIDEO_QUALITY_PROFILES.balanced });
+    await session.start();
+    signal({ type: "ready" });
+    await flush();
+
+    await session.setVideoQuality(VIDEO_QUALITY_PROFILES["data-saver"]);
+    signal({ type: "answer", sdp: "v=0 answer" });
+    await flush();
+    expect(offersSent(sentSignals)).toBe(1);
+
+    pc().setConnectionState("connected");
+    await flush();
+
+    expect(offersSent(sentSignals)).toBe(2);
+    expect(pc().offers.at(-1)).not.toMatchObject({ iceRestart: true });
+    expect(session.videoQuality).toBe(VIDEO_QUALITY_PROFILES["data-saver"]);
+  });
+
+  it("applies a profile chosen during ICE recovery once the call is back", async () => {
+    const { session, signal, sentSignals, pc, connect } = setup("video", { videoQuality: VIDEO_QUALITY_PROFILES.balanced });
+    await connect();
+    pc().setIceConnectionState("failed");
+    await flush();
+    expect(session.state).toBe("reconnecting");
+    expect(offersSent(sentSignals)).toBe(2);
+
+    await session.setVideoQuality(VIDEO_QUALITY_PROFILES.hd);
+    signal({ type: "answer", sdp: "v=0 restart answer" });
+    await flush();
+    expect(offersSent(sentSignals)).toBe(2);
+
+    pc().setConnectionState("connected");
+    await flush();
+
+    expect(session.state).toBe("connected");
+    expect(offersSent(sentSignals)).toBe(3);
+    expect(pc().offers.at(-1)).not.toMatchObject({ iceRestart: true });
+  });
+});
@@ -0,0 +1,610 @@
+import { ControlChannel } from "../control/ControlChannel";
+import { CONTROL_CHANNEL_LABEL } from "../control/protocol";
+import { createLogger } from "../logging";
+import { CALL_PROFILES, type CallProfile } from "./callProfiles";
+import { getIceServers } from "./config";
+import { parseIceCandidate } from "./iceCandidate";
+import { applyBandwidthHint, orderCodecs, supportsCodecPreferences, type VideoQualityProfile } from "./videoQuality";
+import {
+  isCandidate,
+  isDescription,
+  isReady,
+  type CallKind,
+  type SignalData,
+  type SignalingSocket,
+} from "./signaling";
+
+export type CallState = "idle" | "requesting" | "negotiating" | "connected" | "reconnecting" | "ended" | "failed";
+
+export type CallEndReason = "hangup" | "remote" | "ice-failed" | "connection-failed" | "error";
+
+export type CallDirection = "outgoing" | "incoming";
+
+const log = createLogger("signaling");
+const iceLog = createLogger("ice");
+const mediaLog = createLogger("media");
+
+const TRANSITIONS: Record<CallState, CallState[]> = {
+  idle: ["requesting", "ended", "failed"],
+  requesting: ["negotiating", "ended", "failed"],
+  negotiating: ["connected", "reconnecting", "ended", "failed"],
+  connected: ["reconnecting", "ended", "failed"],
+  reconnecting: ["connected", "requesting", "ended", "failed"],
+  ended: [],
+  failed: [],
+};
+
+// A vehicle routinely loses connectivity for a few seconds; give ICE a chance to recover
+// on its own before restarting it.
+const ICE_DISCONNECT_GRACE_MS = 4000;
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+const reconnectDelay = (attempt: number) => Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+
+export interface CallSessionEvents {
+  state: (state: CallState) => void;
+  status: (message: string) => void;
+  track: (event: RTCTrackEvent) => void;
+  localStream: (stream: MediaStream | null) => void;
+  controlChannel: (channel: ControlChannel | null) => void;
+}
+
+export interface CallSessionOptions {
+  kind: CallKind;
+  deviceId: string;
+  socket: SignalingSocket;
+  // Overrides the profile's local media, e.g. to add the admin's camera or a push-to-talk mic.
+  localMedia?: MediaStreamConstraints | null;
+  // Socket id of a dashcam whose incoming call is being accepted, instead of dialling it.
+  acceptFrom?: string;
+  // Codec, bitrate and resolution asked of the dashcam; video calls only.
+  videoQuality?: VideoQualityProfile | null;
+  getIceServers?: () => Promise<RTCIceServer[]>;
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  createPeerConnection?: (config: RTCConfiguration) => RTCPeerConnection;
+}
+
+// One call with one dashcam, from `start-call` (or accepting its incoming call) through hangup.
+// The session does not subscribe to the socket itself: a CallRouter feeds it the
+// signals addressed to it, so several sessions can share one connection.
+export class CallSession {
+  readonly kind: CallKind;
+  readonly deviceId: string;
+  readonly profile: CallProfile;
+  readonly direction: CallDirection;
+  state: CallState = "idle";
+  endReason: CallEndReason | null = null;
+  remoteSocketId: string | null = null;
+  pc: RTCPeerConnection | null = null;
+  localStream: MediaStream | null = null;
+  controlChannel: ControlChannel | null = null;
+  reconnectAttempt = 0;
+  microphoneEnabled = true;
+  videoQuality: VideoQualityProfile | null;
+
+  private socket: SignalingSocket;
+  private localMedia: MediaStreamConstraints | null;
+  private acceptFrom: string | null;
+  private getIceServers: () => Promise<RTCIceServer[]>;
+  private getUserMedia: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  private createPeerConnection: (config: RTCConfiguration) => RTCPeerConnection;
+  // Candidates that arrive before the answer they belong to has been applied.
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // A quality change that arrived while an offer was outstanding; sent once it is answered.
+  private qualityChangePending = false;
+  // What to record if recovery gives up: which layer reported the failure first.
+  private recoveryReason: CallEndReason = "ice-failed";
+  private listeners: { [K in keyof CallSessionEvents]: Set<CallSessionEvents[K]> } = {
+    state: new Set(),
+    status: new Set(),
+    track: new Set(),
+    localStream: new Set(),
+    controlChannel: new Set(),
+  };
+
+  constructor(options: CallSessionOptions) {
+    this.kind = options.kind;
+    this.deviceId = options.deviceId;
+    this.profile = CALL_PROFILES[options.kind];
+    this.socket = options.socket;
+    this.localMedia = options.localMedia !== undefined ? options.localMedia : this.profile.localMedia;
+    this.acceptFrom = options.acceptFrom ?? null;
+    this.direction = this.acceptFrom ? "incoming" : "outgoing";
+    this.videoQuality = options.kind === "video" ? (options.videoQuality ?? null) : null;
+    this.getIceServers = options.getIceServers ?? getIceServers;
+    this.getUserMedia = options.getUserMedia ?? ((constraints) => navigator.mediaDevices.getUserMedia(constraints));
+    this.createPeerConnection = options.createPeerConnection ?? ((config) => new RTCPeerConnection(config));
+  }
+
+  on<K extends keyof CallSessionEvents>(event: K, listener: CallSessionEvents[K]) {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  get isActive() {
+    return this.state !== "idle" && this.state !== "ended" && this.state !== "failed";
+  }
+
+  get isAwaitingReady() {
+    return this.state === "requesting" && this.remoteSocketId === null;
+  }
+
+  async start() {
+    const { label, channel } = this.profile;
+    const localMedia = this.localMedia;
+    this.setStatus(`Initiating ${label.toLowerCase()} call via socket...`);
+
+    if (localMedia) {
+      try {
+        const stream = await this.getUserMedia(localMedia);
+        // Hung up (or signed out) while the permission prompt was open.
+        if (this.state !== "idle") {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        this.localStream = stream;
+        mediaLog.info("Admin local media granted, tracks:", this.localStream.getTracks());
+        this.applyMicrophoneEnabled();
+        this.emitLocalStream();
+      } catch (err) {
+        const { name, message } = err as Error;
+        mediaLog.error("Admin local media error:", err);
+        const source = localMedia.video ? "Camera/microphone" : "Microphone";
+        this.fail("error", `${source} error: ${name} - ${message}`);
+        return;
+      }
+    }
+
+    this.transition("requesting");
+    if (this.acceptFrom) {
+      // The dashcam answers an accept with the same `ready` as a dialled call, so the
+      // negotiation from here on is identical; binding its socket id routes that `ready` here.
+      this.remoteSocketId = this.acceptFrom;
+      this.socket.emit(channel.accept, { to: this.acceptFrom, deviceId: this.deviceId });
+    } else {
+      this.socket.emit(channel.start, { deviceId: this.deviceId });
+    }
+  }
+
+  async handleSignal(from: string, data: SignalData) {
+    const { label } = this.profile;
+
+    try {
+      if (isReady(data)) {
+        await this.handleReady(from);
+      } else if (isDescription(data) && data.type === "answer") {
+        log.debug(`Received ${label.toLowerCase()} answer:`, data);
+        if (this.pc) {
+          await this.pc.setRemoteDescription(data);
+          this.setStatus(`${label} answer received...`);
+          await this.flushPendingCandidates();
+          if (this.qualityChangePending && this.videoQuality) await this.setVideoQuality(this.videoQuality);
+        }
+      } else if (isCandidate(data)) {
+        iceLog.debug("Received ICE candidate:", data.candidate);
+        const candidate = parseIceCandidate(data.candidate);
+        if (!candidate) {
+          iceLog.warn("Invalid ICE candidate:", data.candidate);
+        } else if (this.canApplyCandidates()) {
+          await this.applyCandidate(candidate);
+        } else {
+          this.pendingCandidates.push(candidate);
+          iceLog.debug("Queued early ICE candidate, pending:", this.pendingCandidates.length);
+        }
+      }
+    } catch (err) {
+      log.error(`${label} WebRTC error:`, err);
+      this.fail("error", `${label} connection error: ${(err as Error).message}`);
+    }
+  }
+
+  // The dashcam hung up (`call-ended` / `video-call-ended`).
+  handleRemoteEnded() {
+    if (!this.isActive) return;
+    log.info(`${this.profile.label} call ended by Dashcam`);
+    this.finish("ended", "remote", "Call ended");
+  }
+
+  hangup() {
+    if (this.state === "idle") {
+      // Nothing has been sent yet; start() drops the media if the prompt is still open.
+      this.finish("ended", "hangup", "Call cancelled");
+      return;
+    }
+    if (!this.isActive) return;
+    this.socket.emit(this.profile.channel.end, {
+      to: this.remoteSocketId || "",
+      deviceId: this.deviceId,
+    });
+    this.finish("ended", "hangup", "Call ended");
+  }
+
+  fail(reason: CallEndReason, message: string) {
+    if (this.state === "ended" || this.state === "failed") return;
+    this.finish("failed", reason, message);
+  }
+
+  // Mutes or unmutes the admin's outgoing audio without renegotiating; used by push-to-talk.
+  setMicrophoneEnabled(enabled: boolean) {
+    this.microphoneEnabled = enabled;
+    this.applyMicrophoneEnabled();
+  }
+
+  // Swaps the local microphone or camera mid-call. The new track replaces the old one on the
+  // existing sender, so the dashcam sees no renegotiation.
+  async switchInputDevice(kind: "audio" | "video", constraints: MediaTrackConstraints) {
+    const localStream = this.localStream;
+    const oldTrack = kind === "audio" ? localStream?.getAudioTracks()[0] : localStream?.getVideoTracks()[0];
+    if (!localStream || !oldTrack) return;
+
+    const stream = await this.getUserMedia({ [kind]: constraints });
+    const [newTrack] = kind === "audio" ? stream.getAudioTracks() : stream.getVideoTracks();
+    if (kind === "audio") newTrack.enabled = this.microphoneEnabled;
+
+    const sender = this.pc?.getSenders().find((s) => s.track === oldTrack);
+    await sender?.replaceTrack(newTrack);
+
+    localStream.removeTrack(oldTrack);
+    localStream.addTrack(newTrack);
+    oldTrack.stop();
+    mediaLog.info(`Switched local ${kind} input to`, newTrack.label);
+    this.emitLocalStream();
+  }
+
+  // Switches quality profile mid-call. Codec order and the bitrate cap go out in a new offer on
+  // the existing connection, so media keeps flowing and ICE is untouched; resolution and frame
+  // rate are asked of the dashcam over the control channel. Before the first offer the profile
+  // is simply used for it; a change while an offer is in flight or the call is still connecting
+  // or recovering is applied once the call is connected and signaling is stable again.
+  async setVideoQuality(profile: VideoQualityProfile) {
+    if (this.kind !== "video") return;
+    this.videoQuality = profile;
+    const pc = this.pc;
+    if (!pc) return;
+    if (this.state !== "connected" || pc.signalingState !== "stable") {
+      log.info("Deferring video quality change until the call is connected and the current offer is answered");
+      this.qualityChangePending = true;
+      return;
+    }
+    this.qualityChangePending = false;
+
+    const offer = await this.createLocalOffer(pc, this.profile.offerOptions);
+    this.sendSignal(pc.localDescription as RTCSessionDescriptionInit as SignalData);
+    log.info(`Sent ${profile.label} video quality offer`, { sdp: offer.sdp });
+    await this.sendQualityCommands();
+  }
+
+  // The signaling socket came back after a drop. A call that was still being set up or was
+  // recovering is dialled again from scratch: the dashcam may have reconnected too, so its old
+  // socket id cannot be trusted for an ICE restart.
+  handleSignalingReconnect() {
+    if (this.state === "requesting") {
+      log.info(`Re-sending ${this.profile.label.toLowerCase()} call request after socket reconnect`);
+      // An accepted incoming call is dialled back: the dashcam's old socket id is gone.
+      this.remoteSocketId = null;
+      this.socket.emit(this.profile.channel.start, { deviceId: this.deviceId });
+    } else if (this.state === "negotiating" || this.state === "reconnecting") {
+      this.redial();
+    }
+  }
+
+  private async handleReady(from: string) {
+    const { label, offerOptions } = this.profile;
+
+    if (this.state !== "requesting") {
+      log.warn(`Ignoring ${label.toLowerCase()} ready in state ${this.state}`);
+      return;
+    }
+
+    log.info(`Dashcam ready for ${label.toLowerCase()} call, socket ID:`, from);
+    this.remoteSocketId = from;
+    this.setStatus(`Dashcam ready - Creating ${label.toLowerCase()} offer...`);
+    this.transition("negotiating");
+
+    const iceServers = await this.getIceServers();
+    if (!this.isActive) return;
+
+    const pc = this.createPeerConnection({ iceServers });
+    this.pc = pc;
+
+    const localStream = this.localStream;
+    localStream?.getTracks().forEach((track) => {
+      mediaLog.debug(`Adding ${track.kind} track to peer connection`, {
+        id: track.id,
+        enabled: track.enabled,
+        readyState: track.readyState,
+      });
+      pc.addTrack(track, localStream);
+    });
+
+    pc.ontrack = (event) => {
+      this.listeners.track.forEach((listener) => listener(event));
+    };
+
+    // Created before the offer so the data channel is negotiated with it.
+    if (this.profile.controlChannel) {
+      this.controlChannel = new ControlChannel(pc.createDataChannel(CONTROL_CHANNEL_LABEL, { ordered: true }));
+      this.controlChannel.onOpenChange((open) => {
+        if (!open) return;
+        this.sendQualityCommands().catch((err) => log.warn("Dashcam rejected video quality settings:", err));
+      });
+      this.listeners.controlChannel.forEach((listener) => listener(this.controlChannel));
+    }
+
+    pc.onicecandidate = (event) => {
+      if (!event.candidate) {
+        iceLog.debug("ICE gathering complete");
+        return;
+      }
+      iceLog.debug("Sending ICE candidate:", event.candidate.candidate);
+      this.sendSignal({
+        candidate: {
+          candidate: event.candidate.candidate,
+          sdpMid: event.candidate.sdpMid,
+          sdpMLineIndex: event.candidate.sdpMLineIndex,
+          usernameFragment: event.candidate.usernameFragment,
+        },
+      });
+    };
+
+    pc.oniceconnectionstatechange = () => {
+      iceLog.info("ICE connection state:", pc.iceConnectionState);
+      const iceState = pc.iceConnectionState;
+      if (iceState === "connected" || iceState === "completed") {
+        this.clearGraceTimer();
+      } else if (iceState === "disconnected" && !this.graceTimer && this.state !== "reconnecting") {
+        this.setStatus("Connection interrupted - waiting for it to recover...");
+        this.graceTimer = setTimeout(() => {
+          this.graceTimer = null;
+          this.beginRecovery();
+        }, ICE_DISCONNECT_GRACE_MS);
+      } else if (iceState === "failed") {
+        this.clearGraceTimer();
+        this.beginRecovery();
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      log.info(`${label} connection state:`, pc.connectionState);
+      if (pc.connectionState === "connected") {
+        this.handleConnected();
+      } else if (pc.connectionState === "failed") {
+        this.beginRecovery("connection-failed");
+      } else if (this.state === "negotiating") {
+        this.setStatus(`${label} connecting... (${pc.connectionState})`);
+      }
+    };
+
+    const offer = await this.createLocalOffer(pc, offerOptions);
+    this.sendSignal(pc.localDescription as RTCSessionDescriptionInit as SignalData);
+    log.info(`Sent ${label.toLowerCase()} offer to:`, from, { sdp: offer.sdp });
+    this.setStatus(`${label} offer sent...`);
+  }
+
+  private applyCodecPreferences(pc: RTCPeerConnection) {
+    const quality = this.videoQuality;
+    const capabilities = supportsCodecPreferences() ? RTCRtpReceiver.getCapabilities("video") : null;
+    if (!quality || !capabilities) return;
+
+    // An explicit transceiver, so its codecs can be ordered before the offer is created.
+    const transceiver =
+      pc.getTransceivers().find((t) => t.receiver.track.kind === "video") ??
+      pc.addTransceiver("video", { direction: "recvonly" });
+    try {
+      transceiver.setCodecPreferences(orderCodecs(capabilities.codecs, quality.codecs));
+    } catch (err) {
+      log.warn("Failed to set video codec preferences:", err);
+    }
+  }
+
+  private async createLocalOffer(pc: RTCPeerConnection, options: RTCOfferOptions) {
+    this.applyCodecPreferences(pc);
+    const offer = await pc.createOffer(options);
+    const quality = this.videoQuality;
+    const description: RTCSessionDescriptionInit =
+      quality && offer.sdp ? { type: offer.type, sdp: applyBandwidthHint(offer.sdp, quality.maxBitrateKbps) } : offer;
+    await pc.setLocalDescription(description);
+    return description;
+  }
+
+  private async sendQualityCommands() {
+    const quality = this.videoQuality;
+    const channel = this.controlChannel;
+    if (!quality || !channel?.isOpen) return;
+    await Promise.all([
+      channel.send({ type: "set-resolution", width: quality.width, height: quality.height }),
+      channel.send({ type: "set-frame-rate", fps: quality.frameRate }),
+    ]);
+  }
+
+  private applyMicrophoneEnabled() {
+    this.localStream?.getAudioTracks().forEach((track) => {
+      track.enabled = this.microphoneEnabled;
+    });
+  }
+
+  private emitLocalStream() {
+    this.listeners.localStream.forEach((listener) => listener(this.localStream));
+  }
+
+  // Candidates can only be added once the remote description is in place, and not while an
+  // ICE restart offer is outstanding: those belong to the next generation's answer.
+  private canApplyCandidates() {
+    return !!this.pc?.remoteDescription && this.pc.signalingState === "stable";
+  }
+
+  private async applyCandidate(candidate: RTCIceCandidateInit) {
+    if (!this.pc) return;
+    try {
+      if (candidate.candidate) {
+        await this.pc.addIceCandidate(candidate);
+        iceLog.debug("Added ICE candidate:", candidate);
+      } else {
+        await this.pc.addIceCandidate();
+        iceLog.debug("Remote end-of-candidates applied");
+      }
+    } catch (err) {
+      // One bad candidate must not take the call down; the others may still connect.
+      iceLog.warn("Failed to add ICE candidate:", candidate, err);
+    }
+  }
+
+  private async flushPendingCandidates() {
+    const pending = this.pendingCandidates;
+    this.pendingCandidates = [];
+    if (pending.length > 0) iceLog.debug("Flushing queued ICE candidates:", pending.length);
+    for (const candidate of pending) {
+      await this.applyCandidate(candidate);
+    }
+  }
+
+  private handleConnected() {
+    const { label } = this.profile;
+    this.clearReconnectTimers();
+    if (this.state === "reconnecting") {
+      log.info(`${label} call recovered after ${this.reconnectAttempt} attempt(s)`);
+      this.setStatus(`${label} reconnected`);
+    } else {
+      this.setStatus(`${label} connected`);
+    }
+    this.reconnectAttempt = 0;
+    // Recovering within the grace period never left `connected`.
+    if (this.state !== "connected") this.transition("connected");
+    if (this.qualityChangePending && this.videoQuality) {
+      this.setVideoQuality(this.videoQuality).catch((err) => log.error("Deferred video quality change failed:", err));
+    }
+  }
+
+  private beginRecovery(reason: CallEndReason = "ice-failed") {
+    if (this.state !== "connected" && this.state !== "negotiating") return;
+    this.recoveryReason = reason;
+    this.transition("reconnecting");
+    this.reconnectAttempt = 0;
+    this.restartIce();
+  }
+
+  // One ICE restart attempt: a fresh offer with new ICE credentials over the same peer
+  // connection. The next attempt is scheduled right away and cancelled if this one connects.
+  private async restartIce() {
+    const pc = this.pc;
+    if (this.state !== "reconnecting" || !pc) return;
+
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.notifyRemoteEnded();
+      this.fail(
+        this.recoveryReason,
+        this.recoveryReason === "connection-failed" ? "Peer connection failed" : "ICE connection failed"
+      );
+      return;
+    }
+
+    // Armed even while the socket is down, so a server that never comes back still ends the
+    // call once the attempts run out.
+    this.reconnectAttempt += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.restartIce();
+    }, reconnectDelay(this.reconnectAttempt));
+
+    if (!this.socket.connected) {
+      // handleSignalingReconnect picks this up once the socket is back.
+      this.setStatus("Reconnecting - waiting for signaling server...");
+      return;
+    }
+
+    this.setStatus(`Reconnecting (attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS})`);
+    iceLog.info(`ICE restart attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS}`);
+
+    try {
+      const offer = await this.createLocalOffer(pc, { ...this.profile.offerOptions, iceRestart: true });
+      this.sendSignal(pc.localDescription as RTCSessionDescriptionInit as SignalData);
+      iceLog.debug("Sent ICE restart offer", { sdp: offer.sdp });
+    } catch (err) {
+      iceLog.error("ICE restart offer failed:", err);
+    }
+  }
+
+  private redial() {
+    log.info(`Redialling ${this.profile.label.toLowerCase()} call to`, this.deviceId);
+    this.clearReconnectTimers();
+    this.closePeerConnection();
+    this.remoteSocketId = null;
+    if (this.state === "negotiating") this.transition("reconnecting");
+    this.setStatus(`Reconnecting to ${this.deviceId}...`);
+    this.transition("requesting");
+    this.socket.emit(this.profile.channel.start, { deviceId: this.deviceId });
+  }
+
+  private clearGraceTimer() {
+    if (this.graceTimer) clearTimeout(this.graceTimer);
+    this.graceTimer = null;
+  }
+
+  private clearReconnectTimers() {
+    this.clearGraceTimer();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+
+  private closePeerConnection() {
+    this.pendingCandidates = [];
+    // The next connection's first offer already carries the current profile.
+    this.qualityChangePending = false;
+    if (this.controlChannel) {
+      this.controlChannel.close();
+      this.controlChannel = null;
+      this.listeners.controlChannel.forEach((listener) => listener(null));
+    }
+    if (!this.pc) return;
+    this.pc.ontrack = null;
+    this.pc.onicecandidate = null;
+    this.pc.oniceconnectionstatechange = null;
+    this.pc.onconnectionstatechange = null;
+    this.pc.close();
+    this.pc = null;
+  }
+
+  private sendSignal(data: SignalData) {
+    if (!this.remoteSocketId) return;
+    this.socket.emit(this.profile.channel.signal, {
+      to: this.remoteSocketId,
+      deviceId: this.deviceId,
+      data,
+    });
+  }
+
+  private notifyRemoteEnded() {
+    if (!this.remoteSocketId || !this.isActive) return;
+    this.socket.emit(this.profile.channel.ended, { to: this.remoteSocketId, deviceId: this.deviceId });
+  }
+
+  private finish(state: "ended" | "failed", reason: CallEndReason, message: string) {
+    this.endReason = reason;
+    this.clearReconnectTimers();
+    this.closePeerConnection();
+    this.localStream?.getTracks().forEach((track) => track.stop());
+    this.localStream = null;
+    this.emitLocalStream();
+    this.setStatus(message);
+    this.transition(state);
+  }
+
+  private transition(next: CallState) {
+    if (!TRANSITIONS[this.state].includes(next)) {
+      log.warn(`Invalid call state transition ${this.state} -> ${next}`);
+      return;
+    }
+    this.state = next;
+    this.listeners.state.forEach((listener) => listener(next));
+  }
+
+  private setStatus(message: string) {
+    this.listeners.status.forEach((listener) => listener(message));
+  }
+}
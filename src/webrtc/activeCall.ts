@@ -0,0 +1,49 @@
+import type { CallSession, CallState } from "./CallSession";
+import type { CallKind } from "./signaling";
+
+export interface ActiveCallSnapshot {
+  session: CallSession | null;
+  kind: CallKind | null;
+  state: CallState;
+}
+
+const IDLE: ActiveCallSnapshot = { session: null, kind: null, state: "idle" };
+
+let snapshot = IDLE;
+let unsubscribeSession: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+const publish = (next: ActiveCallSnapshot) => {
+  snapshot = next;
+  listeners.forEach((listener) => listener());
+};
+
+// The single-call mode's current session. Kept outside React so signaling callbacks always
+// see the live call instead of whatever was captured by the last render.
+export const getActiveCall = () => snapshot;
+
+export const setActiveCall = (session: CallSession | null) => {
+  unsubscribeSession?.();
+  unsubscribeSession = null;
+
+  if (!session) {
+    publish(IDLE);
+    return;
+  }
+
+  publish({ session, kind: session.kind, state: session.state });
+  unsubscribeSession = session.on("state", (state) => {
+    if (state === "ended" || state === "failed") {
+      setActiveCall(null);
+    } else {
+      publish({ session, kind: session.kind, state });
+    }
+  });
+};
+
+export const subscribeActiveCall = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
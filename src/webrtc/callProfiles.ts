@@ -0,0 +1,40 @@
+import { SIGNALING_CHANNELS, type CallKind, type SignalingChannel } from "./signaling";
+
+// Everything that differs between call types. A new call type is a new entry here.
+export interface CallProfile {
+  kind: CallKind;
+  label: string;
+  channel: SignalingChannel;
+  localMedia: MediaStreamConstraints | null;
+  offerOptions: RTCOfferOptions;
+  // Open the dashcam control data channel on this call type.
+  controlChannel: boolean;
+}
+
+export const CALL_PROFILES: Record<CallKind, CallProfile> = {
+  audio: {
+    kind: "audio",
+    label: "Audio",
+    channel: SIGNALING_CHANNELS.audio,
+    localMedia: {
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      },
+    },
+    offerOptions: { offerToReceiveAudio: true },
+    controlChannel: false,
+  },
+  video: {
+    kind: "video",
+    label: "Video",
+    channel: SIGNALING_CHANNELS.video,
+    localMedia: null,
+    offerOptions: {
+      offerToReceiveAudio: true,
+      offerToReceiveVideo: true,
+    },
+    controlChannel: true,
+  },
+};
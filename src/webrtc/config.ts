@@ -0,0 +1,49 @@
+import axios from "axios";
+import { getConfig } from "../config";
+import { createLogger } from "../logging";
+
+const log = createLogger("ice");
+
+// Response of the TURN credentials endpoint. Credentials are short-lived; `ttl` is in seconds.
+interface TurnCredentialsResponse {
+  iceServers?: RTCIceServer[];
+  urls?: string | string[];
+  username?: string;
+  credential?: string;
+  ttl?: number;
+}
+
+// Refetch a little before the backend's expiry so a call never starts with stale credentials.
+const TTL_SAFETY_MARGIN_MS = 30_000;
+const DEFAULT_TTL_SECONDS = 300;
+
+let cachedTurnServers: RTCIceServer[] = [];
+let turnExpiresAt = 0;
+
+const fetchTurnServers = async (url: string) => {
+  if (Date.now() < turnExpiresAt) return cachedTurnServers;
+
+  const { data } = await axios.get<TurnCredentialsResponse>(url, { withCredentials: true });
+  const servers = data.iceServers ?? (data.urls ? [{ urls: data.urls, username: data.username, credential: data.credential }] : []);
+
+  cachedTurnServers = servers;
+  turnExpiresAt = Date.now() + (data.ttl ?? DEFAULT_TTL_SECONDS) * 1000 - TTL_SAFETY_MARGIN_MS;
+  log.info("TURN credentials refreshed, servers:", servers.length);
+  return servers;
+};
+
+// Static ICE servers from config plus fresh TURN credentials when an endpoint is configured.
+// A failing credentials endpoint degrades to STUN-only rather than blocking the call.
+export const getIceServers = async (): Promise<RTCIceServer[]> => {
+  const { iceServers, turnCredentialsUrl } = getConfig();
+  if (!turnCredentialsUrl) return iceServers;
+
+  try {
+    return [...iceServers, ...(await fetchTurnServers(turnCredentialsUrl))];
+  } catch (err) {
+    log.error("Failed to fetch TURN credentials:", err);
+    return iceServers;
+  }
+};
+
+export const getTurnCredentialsExpiry = () => (turnExpiresAt > 0 ? turnExpiresAt + TTL_SAFETY_MARGIN_MS : null);
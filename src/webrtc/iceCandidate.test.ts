@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { formatCandidateAttribute, isEndOfCandidates, parseCandidateAttribute, parseIceCandidate } from "./iceCandidate";
+
+const HOST = "candidate:842163049 1 udp 1677729535 192.168.1.20 54321 typ host generation 0 ufrag EsAw network-cost 999";
+const SRFLX = "candidate:1467250027 1 udp 2122260223 203.0.113.5 40000 typ srflx raddr 192.168.1.20 rport 54321";
+const TCP = "candidate:3 1 TCP 1518280447 192.168.1.20 9 typ host tcptype active";
+
+describe("parseCandidateAttribute", () => {
+  it.each([
+    ["a bare candidate-attribute", HOST],
+    ["an a= line", `a=${HOST}`],
+    ["surrounding whitespace", `  ${HOST}\r\n`],
+  ])("accepts %s", (_, line) => {
+    expect(parseCandidateAttribute(line)).toEqual({
+      foundation: "842163049",
+      component: 1,
+      transport: "udp",
+      priority: 1677729535,
+      address: "192.168.1.20",
+      port: 54321,
+      type: "host",
+      generation: 0,
+      ufrag: "EsAw",
+      networkCost: 999,
+      extensions: {},
+    });
+  });
+
+  it.each([
+    ["raddr/rport", SRFLX, { type: "srflx", relatedAddress: "192.168.1.20", relatedPort: 54321 }],
+    ["tcptype", TCP, { transport: "tcp", port: 9, tcpType: "active" }],
+    [
+      "unknown extensions",
+      "candidate:4 1 udp 100 10.0.0.1 5000 typ relay raddr 0.0.0.0 rport 0 x-foo bar network-id 2",
+      { type: "relay", networkId: 2, extensions: { "x-foo": "bar" } },
+    ],
+  ])("reads %s", (_, line, expected) => {
+    expect(parseCandidateAttribute(line)).toMatchObject(expected);
+  });
+
+  it.each([
+    ["a missing candidate: prefix", "842163049 1 udp 1677729535 192.168.1.20 54321 typ host"],
+    ["a bad foundation", "candidate:bad_foundation! 1 udp 1677729535 192.168.1.20 54321 typ host"],
+    ["a non-numeric component", "candidate:1 rtp udp 1677729535 192.168.1.20 54321 typ host"],
+    ["a non-numeric port", "candidate:1 1 udp 1677729535 192.168.1.20 port typ host"],
+    ["too few fields", "candidate:1 1 udp 1677729535 192.168.1.20 54321 typ"],
+    ["no typ keyword", "candidate:1 1 udp 1677729535 192.168.1.20 54321 type host"],
+    ["an unknown candidate type", "candidate:1 1 udp 1677729535 192.168.1.20 54321 typ turn"],
+    ["an odd attribute count", "candidate:1 1 udp 1677729535 192.168.1.20 54321 typ host generation"],
+    ["a non-numeric rport", "candidate:1 1 udp 1 203.0.113.5 40000 typ srflx raddr 192.168.1.20 rport x"],
+    ["an unknown tcptype", "candidate:1 1 tcp 1 192.168.1.20 9 typ host tcptype sideways"],
+  ])("rejects %s", (_, line) => {
+    expect(parseCandidateAttribute(line)).toBeNull();
+  });
+});
+
+describe("formatCandidateAttribute", () => {
+  it.each([HOST, SRFLX, "candidate:3 1 tcp 1518280447 192.168.1.20 9 typ host tcptype active"])(
+    "round-trips %s",
+    (line) => {
+      expect(formatCandidateAttribute(parseCandidateAttribute(line)!)).toBe(line);
+    }
+  );
+});
+
+describe("isEndOfCandidates", () => {
+  it.each([
+    ["null", null, true],
+    ["undefined", undefined, true],
+    ["an empty string", "", true],
+    ["a blank string", "  ", true],
+    ["an init with an empty candidate", { candidate: "", sdpMid: "0" }, true],
+    ["an init without a candidate", { sdpMid: "0" }, true],
+    ["a candidate string", HOST, false],
+    ["a candidate init", { candidate: HOST }, false],
+  ])("%s", (_, candidate, expected) => {
+    expect(isEndOfCandidates(candidate)).toBe(expected);
+  });
+});
+
+describe("parseIceCandidate", () => {
+  it.each([
+    ["a bare string", HOST, { sdpMid: "0", sdpMLineIndex: 0, usernameFragment: "EsAw" }],
+    ["an a= string", `a=${HOST}`, { sdpMid: "0", sdpMLineIndex: 0, usernameFragment: "EsAw" }],
+    [
+      "an RTCIceCandidateInit",
+      { candidate: HOST, sdpMid: "audio", sdpMLineIndex: 1, usernameFragment: "abcd" },
+      { sdpMid: "audio", sdpMLineIndex: 1, usernameFragment: "abcd" },
+    ],
+    ["an init with only sdpMid", { candidate: HOST, sdpMid: "video" }, { sdpMid: "video", sdpMLineIndex: null, usernameFragment: "EsAw" }],
+  ])("normalises %s", (_, input, expected) => {
+    expect(parseIceCandidate(input)).toEqual({ candidate: HOST, ...expected });
+  });
+
+  it.each([
+    ["null", null, { candidate: "" }],
+    ["an empty string", "", { candidate: "" }],
+    ["{ candidate: \"\" }", { candidate: "", sdpMid: "0" }, { candidate: "", sdpMid: "0" }],
+  ])("turns %s into end-of-candidates", (_, input, expected) => {
+    expect(parseIceCandidate(input)).toEqual(expected);
+  });
+
+  it("rejects a malformed candidate", () => {
+    expect(parseIceCandidate("candidate:1 1 udp 1 192.168.1.20 54321 typ nonsense")).toBeNull();
+  });
+});
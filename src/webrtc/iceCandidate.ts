@@ -0,0 +1,153 @@
+import { createLogger } from "../logging";
+
+const log = createLogger("ice");
+export type IceCandidateType = "host" | "srflx" | "prflx" | "relay";
+
+export type IceTcpType = "active" | "passive" | "so";
+
+// The fields of an RFC 8839 `candidate-attribute`.
+export interface IceCandidateFields {
+  foundation: string;
+  component: number;
+  transport: string;
+  priority: number;
+  address: string;
+  port: number;
+  type: IceCandidateType;
+  relatedAddress?: string;
+  relatedPort?: number;
+  tcpType?: IceTcpType;
+  generation?: number;
+  ufrag?: string;
+  networkId?: number;
+  networkCost?: number;
+  // Any other extension attributes, by name.
+  extensions: Record<string, string>;
+}
+
+const CANDIDATE_TYPES: IceCandidateType[] = ["host", "srflx", "prflx", "relay"];
+const TCP_TYPES: IceTcpType[] = ["active", "passive", "so"];
+
+const isUnsignedInt = (value: string) => /^\d+$/.test(value);
+
+// candidate-attribute = "candidate" ":" foundation SP component-id SP transport SP priority SP
+//                       connection-address SP port SP "typ" SP cand-type
+//                       [SP rel-addr] [SP rel-port] *(SP extension-att-name SP extension-att-value)
+// Accepts the value with or without a leading "a=" and returns null when it is malformed.
+export const parseCandidateAttribute = (line: string): IceCandidateFields | null => {
+  const value = line.trim().replace(/^a=/, "");
+  if (!value.startsWith("candidate:")) return null;
+
+  const tokens = value.slice("candidate:".length).split(/\s+/);
+  if (tokens.length < 8 || tokens[6] !== "typ") return null;
+
+  const [foundation, component, transport, priority, address, port, , type, ...rest] = tokens;
+  if (!/^[A-Za-z0-9+/]{1,32}$/.test(foundation)) return null;
+  if (!isUnsignedInt(component) || !isUnsignedInt(priority) || !isUnsignedInt(port)) return null;
+  if (!CANDIDATE_TYPES.includes(type as IceCandidateType)) return null;
+  if (rest.length % 2 !== 0) return null;
+
+  const fields: IceCandidateFields = {
+    foundation,
+    component: Number(component),
+    transport: transport.toLowerCase(),
+    priority: Number(priority),
+    address,
+    port: Number(port),
+    type: type as IceCandidateType,
+    extensions: {},
+  };
+
+  for (let i = 0; i < rest.length; i += 2) {
+    const name = rest[i];
+    const attrValue = rest[i + 1];
+    switch (name) {
+      case "raddr":
+        fields.relatedAddress = attrValue;
+        break;
+      case "rport":
+        if (!isUnsignedInt(attrValue)) return null;
+        fields.relatedPort = Number(attrValue);
+        break;
+      case "tcptype":
+        if (!TCP_TYPES.includes(attrValue as IceTcpType)) return null;
+        fields.tcpType = attrValue as IceTcpType;
+        break;
+      case "generation":
+        if (!isUnsignedInt(attrValue)) return null;
+        fields.generation = Number(attrValue);
+        break;
+      case "ufrag":
+        fields.ufrag = attrValue;
+        break;
+      case "network-id":
+        if (!isUnsignedInt(attrValue)) return null;
+        fields.networkId = Number(attrValue);
+        break;
+      case "network-cost":
+        if (!isUnsignedInt(attrValue)) return null;
+        fields.networkCost = Number(attrValue);
+        break;
+      default:
+        fields.extensions[name] = attrValue;
+    }
+  }
+
+  return fields;
+};
+
+// Inverse of parseCandidateAttribute, without the "a=" prefix.
+export const formatCandidateAttribute = (fields: IceCandidateFields) => {
+  const parts = [
+    `candidate:${fields.foundation}`,
+    fields.component,
+    fields.transport,
+    fields.priority,
+    fields.address,
+    fields.port,
+    "typ",
+    fields.type,
+  ];
+  if (fields.relatedAddress !== undefined) parts.push("raddr", fields.relatedAddress);
+  if (fields.relatedPort !== undefined) parts.push("rport", fields.relatedPort);
+  if (fields.tcpType !== undefined) parts.push("tcptype", fields.tcpType);
+  if (fields.generation !== undefined) parts.push("generation", fields.generation);
+  if (fields.ufrag !== undefined) parts.push("ufrag", fields.ufrag);
+  if (fields.networkId !== undefined) parts.push("network-id", fields.networkId);
+  if (fields.networkCost !== undefined) parts.push("network-cost", fields.networkCost);
+  Object.entries(fields.extensions).forEach(([name, value]) => parts.push(name, value));
+  return parts.join(" ");
+};
+
+// An empty candidate (string or object) signals end-of-candidates for the generation.
+export const isEndOfCandidates = (candidate: RTCIceCandidateInit | string | null | undefined) =>
+  candidate === null ||
+  candidate === undefined ||
+  (typeof candidate === "string" ? candidate.trim() === "" : !candidate.candidate);
+
+// Normalise a signaled candidate, either a bare candidate-attribute string or an
+// RTCIceCandidateInit, into an RTCIceCandidateInit. Returns null when it cannot be parsed;
+// end-of-candidates comes back as an init with an empty `candidate`.
+export const parseIceCandidate = (candidate: RTCIceCandidateInit | string | null): RTCIceCandidateInit | null => {
+  if (candidate === null || isEndOfCandidates(candidate)) {
+    const init = typeof candidate === "object" && candidate !== null ? candidate : {};
+    return { ...init, candidate: "" };
+  }
+
+  const init: RTCIceCandidateInit = typeof candidate === "string" ? { candidate } : { ...candidate };
+  const fields = parseCandidateAttribute(init.candidate ?? "");
+  if (!fields) {
+    log.warn("Failed to parse ICE candidate:", candidate);
+    return null;
+  }
+
+  const sdpMid = init.sdpMid ?? (init.sdpMLineIndex == null ? "0" : null);
+  const sdpMLineIndex = init.sdpMLineIndex ?? (init.sdpMid == null ? 0 : null);
+
+  return {
+    candidate: formatCandidateAttribute(fields),
+    sdpMid,
+    sdpMLineIndex,
+    usernameFragment: init.usernameFragment ?? fields.ufrag,
+  };
+};
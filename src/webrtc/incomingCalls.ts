@@ -0,0 +1,74 @@
+import { socket } from "../sockets";
+import { SIGNALING_CHANNELS, type CallEndedPayload, type CallKind, type IncomingCallPayload } from "./signaling";
+import { createLogger } from "../logging";
+
+const log = createLogger("signaling");
+
+export interface IncomingCall extends IncomingCallPayload {
+  id: string;
+  kind: CallKind;
+  receivedAt: number;
+}
+
+let queue: IncomingCall[] = [];
+const listeners = new Set<() => void>();
+
+const setQueue = (next: IncomingCall[]) => {
+  queue = next;
+  listeners.forEach((listener) => listener());
+};
+
+const removeCall = (id: string) => {
+  setQueue(queue.filter((call) => call.id !== id));
+};
+
+// Ringing calls are kept oldest first, so whoever has been waiting longest is answered next.
+(Object.keys(SIGNALING_CHANNELS) as CallKind[]).forEach((kind) => {
+  const channel = SIGNALING_CHANNELS[kind];
+
+  socket.on(channel.incoming, (payload: IncomingCallPayload) => {
+    log.info(`Incoming ${kind} call from:`, payload.deviceId, payload.reason ?? "");
+    // A dashcam that rings again replaces its earlier attempt but keeps its place in line.
+    const existing = queue.find((call) => call.deviceId === payload.deviceId && call.kind === kind);
+    const call: IncomingCall = {
+      ...payload,
+      kind,
+      id: existing?.id ?? crypto.randomUUID(),
+      receivedAt: existing?.receivedAt ?? Date.now(),
+    };
+    setQueue(existing ? queue.map((c) => (c === existing ? call : c)) : [...queue, call]);
+  });
+
+  // The driver gave up before anyone answered.
+  socket.on(channel.ended, (payload?: CallEndedPayload) => {
+    const call = queue.find(
+      (c) => c.kind === kind && ((payload?.from && c.from === payload.from) || (payload?.deviceId && c.deviceId === payload.deviceId))
+    );
+    if (call) {
+      log.info(`Incoming ${kind} call from ${call.deviceId} was cancelled`);
+      removeCall(call.id);
+    }
+  });
+});
+
+export const getIncomingCalls = () => queue;
+
+export const subscribeIncomingCalls = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Takes the call off the queue; the caller starts a session with `acceptFrom` to answer it.
+export const takeIncomingCall = (id: string) => {
+  const call = queue.find((c) => c.id === id);
+  if (call) removeCall(id);
+  return call ?? null;
+};
+
+export const declineIncomingCall = (id: string) => {
+  const call = takeIncomingCall(id);
+  if (!call) return;
+  socket.emit(SIGNALING_CHANNELS[call.kind].decline, { to: call.from, deviceId: call.deviceId });
+};
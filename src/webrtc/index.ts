@@ -0,0 +1,7 @@
+import { socket } from "../sockets";
+import { CallRouter } from "./CallRouter";
+
+// Signaling listeners are attached once, when the module loads, so they never depend on
+// React render state and no message can slip through a re-subscribe.
+export const callRouter = new CallRouter(socket);
+callRouter.attach();
@@ -0,0 +1,85 @@
+export type CallKind = "audio" | "video";
+
+export interface ReadyMessage {
+  type: "ready";
+}
+
+export interface DescriptionMessage {
+  type: "offer" | "answer";
+  sdp: string;
+}
+
+export interface CandidateMessage {
+  type?: undefined;
+  // null or an empty candidate marks end-of-candidates.
+  candidate: RTCIceCandidateInit | string | null;
+}
+
+// Payload carried in the `data` field of `webrtc-signal` / `webrtc-video-signal`.
+export type SignalData = ReadyMessage | DescriptionMessage | CandidateMessage;
+
+export interface SignalEnvelope {
+  from: string;
+  deviceId?: string;
+  data: SignalData;
+}
+
+export interface CallEndedPayload {
+  from?: string;
+  deviceId?: string;
+}
+
+// A driver-initiated call, e.g. from the dashcam's SOS button.
+export interface IncomingCallPayload {
+  from: string;
+  deviceId: string;
+  reason?: string;
+}
+
+// Socket event names used by one call type.
+export interface SignalingChannel {
+  start: string;
+  end: string;
+  signal: string;
+  ended: string;
+  // Driver-initiated calls: the dashcam rings, the admin accepts or declines.
+  incoming: string;
+  accept: string;
+  decline: string;
+}
+
+export const SIGNALING_CHANNELS: Record<CallKind, SignalingChannel> = {
+  audio: {
+    start: "start-call",
+    end: "end-call",
+    signal: "webrtc-signal",
+    ended: "call-ended",
+    incoming: "incoming-call",
+    accept: "accept-call",
+    decline: "decline-call",
+  },
+  video: {
+    start: "start-video-call",
+    end: "end-video-call",
+    signal: "webrtc-video-signal",
+    ended: "video-call-ended",
+    incoming: "incoming-video-call",
+    accept: "accept-video-call",
+    decline: "decline-video-call",
+  },
+};
+
+// The subset of the socket.io client a call session needs; lets tests pass a fake.
+export interface SignalingSocket {
+  readonly connected: boolean;
+  emit(event: string, ...args: unknown[]): unknown;
+  on(event: string, listener: (...args: never[]) => void): unknown;
+  off(event: string, listener?: (...args: never[]) => void): unknown;
+}
+
+export const isReady = (data: SignalData): data is ReadyMessage => data.type === "ready";
+
+export const isDescription = (data: SignalData): data is DescriptionMessage =>
+  data.type === "offer" || data.type === "answer";
+
+export const isCandidate = (data: SignalData): data is CandidateMessage => "candidate" in data;
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getActiveCall, subscribeActiveCall } from "./activeCall";
+
+export const useActiveCall = () => useSyncExternalStore(subscribeActiveCall, getActiveCall);
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getIncomingCalls, subscribeIncomingCalls } from "./incomingCalls";
+
+export const useIncomingCalls = () => useSyncExternalStore(subscribeIncomingCalls, getIncomingCalls);
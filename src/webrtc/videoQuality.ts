@@ -0,0 +1,80 @@
+export type VideoQualityId = "data-saver" | "balanced" | "hd";
+
+export type VideoCodecName = "H264" | "VP8" | "VP9" | "AV1";
+
+// What the admin asks of the dashcam's outgoing video. Codec order and bitrate are
+// negotiated in SDP; resolution and frame rate go over the control channel.
+export interface VideoQualityProfile {
+  id: VideoQualityId;
+  label: string;
+  codecs: VideoCodecName[];
+  maxBitrateKbps: number;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const VIDEO_QUALITY_PROFILES: Record<VideoQualityId, VideoQualityProfile> = {
+  // The newer codecs hold up far better at cellular bitrates, if the dashcam can encode them.
+  "data-saver": {
+    id: "data-saver",
+    label: "Data saver",
+    codecs: ["VP9", "AV1", "H264", "VP8"],
+    maxBitrateKbps: 300,
+    width: 640,
+    height: 360,
+    frameRate: 15,
+  },
+  balanced: {
+    id: "balanced",
+    label: "Balanced",
+    codecs: ["H264", "VP8", "VP9", "AV1"],
+    maxBitrateKbps: 1000,
+    width: 1280,
+    height: 720,
+    frameRate: 24,
+  },
+  hd: {
+    id: "hd",
+    label: "HD",
+    codecs: ["H264", "VP9", "AV1", "VP8"],
+    maxBitrateKbps: 2500,
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+  },
+};
+
+export const supportsCodecPreferences = () =>
+  typeof RTCRtpTransceiver !== "undefined" && "setCodecPreferences" in RTCRtpTransceiver.prototype;
+
+// The receiver's codecs reordered by preference. Everything else (rtx, red, ulpfec and codecs
+// not in the list) keeps its place after them, since dropping rtx would disable retransmission.
+export const orderCodecs = (codecs: RTCRtpCodec[], preferred: VideoCodecName[]) => {
+  const rank = (codec: RTCRtpCodec) => {
+    const index = preferred.findIndex((name) => codec.mimeType.toLowerCase() === `video/${name.toLowerCase()}`);
+    return index === -1 ? preferred.length : index;
+  };
+  return [...codecs].sort((a, b) => rank(a) - rank(b));
+};
+
+// Sets `b=AS` (kbps) and `b=TIAS` (bps) on every video m-section. In an offer these bound what
+// the other side may send us, which is how a receive-only admin caps the dashcam's bitrate.
+export const applyBandwidthHint = (sdp: string, maxBitrateKbps: number) => {
+  const eol = sdp.includes("\r\n") ? "\r\n" : "\n";
+  const sections = sdp.split(/\r?\nm=/);
+  return sections
+    .map((section, index) => {
+      if (index === 0 || !section.startsWith("video")) return section;
+      const lines = section.split(/\r?\n/).filter((line) => !line.startsWith("b=AS:") && !line.startsWith("b=TIAS:"));
+      // Bandwidth lines follow the connection line, or the m= line when there is none.
+      const connectionIndex = lines.findIndex((line) => line.startsWith("c="));
+      lines.splice(connectionIndex === -1 ? 1 : connectionIndex + 1, 0, `b=AS:${maxBitrateKbps}`, `b=TIAS:${maxBitrateKbps * 1000}`);
+      return lines.join(eol);
+    })
+    .join(`${eol}m=`);
+};
+
+// Falls back to balanced for ids stored by an older build.
+export const getVideoQualityProfile = (id: string) =>
+  VIDEO_QUALITY_PROFILES[id as VideoQualityId] ?? VIDEO_QUALITY_PROFILES.balanced;
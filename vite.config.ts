@@ -1,7 +1,14 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
+import { simulatedSignaling } from './dev/signalingServer'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ mode }) => ({
+  // `npm run dev:sim` runs the local signaling server; open /simulator.html for dashcams.
+  plugins: [react(), ...(mode === 'simulator' ? [simulatedSignaling()] : [])],
+  test: {
+    // The logging and config modules read localStorage and window.location when imported.
+    environment: 'jsdom',
+    setupFiles: ['src/test/setup.ts'],
+  },
+}))